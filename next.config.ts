@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // tesseract.js spawns its own worker script and heic-convert loads a wasm
+  // decoder at runtime; both break when bundled
+  serverExternalPackages: ["tesseract.js", "heic-convert"],
 };
 
 export default nextConfig;
@@ -0,0 +1,201 @@
+// src/app/api/extract-batch/route.ts
+
+import { settleWithConcurrency } from '@/lib/concurrency';
+import { getExtractionCache } from '@/lib/extraction-cache';
+import { extractFromImageFile, extractionOptionsFromForm } from '@/lib/extraction-pipeline';
+import { getImageUnderstandingProvider } from '@/lib/image-understanding';
+import {
+  getUploadedImages,
+  ImageValidationError,
+  isZipArchive,
+  listZipImages,
+  MAX_BATCH_IMAGES,
+  MAX_BATCH_UNPACKED_SIZE,
+  unpackZipImages,
+  validateImageFile,
+  ZipListing
+} from '@/lib/image-upload';
+import { getOcrProvider } from '@/lib/ocr';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+// Vision takes parallel requests well, but normalization (and Tesseract) share this server's CPU
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 4;
+
+interface BatchItem {
+  filename: string;
+  file?: File;
+  error?: string; // Set when the item was rejected before extraction
+}
+
+/**
+ * Extract text from many photos at once, e.g. a street survey with one photo
+ * per storefront. Each image is read as its own business: results are not
+ * merged, and a file that fails does not fail the batch.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const ocrProvider = getOcrProvider();
+    if (!ocrProvider.isConfigured()) {
+      return NextResponse.json(
+        { error: 'Google Cloud Vision API not configured. Please check your environment variables or set OCR_PROVIDER=tesseract.' },
+        { status: 500 }
+      );
+    }
+
+    const understandingProvider = getImageUnderstandingProvider();
+    const imageUnderstanding = understandingProvider?.isConfigured() ? understandingProvider : null;
+
+    const formData = await request.formData();
+
+    // Images as `images` fields, plus any ZIP archives sent as `archive` or among the images
+    const uploads = [
+      ...getUploadedImages(formData),
+      ...formData.getAll('archive').filter((entry): entry is File => typeof entry !== 'string')
+    ];
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { error: 'No images or ZIP archive provided' },
+        { status: 400 }
+      );
+    }
+
+    // List every archive before inflating any, so the batch limits cover all of them together
+    const listings = new Map<File, ZipListing | ImageValidationError>();
+    let imageCount = 0;
+    let unpackedSize = 0;
+    for (const upload of uploads) {
+      if (!isZipArchive(upload)) {
+        imageCount++;
+        continue;
+      }
+      const listing = await listZipImages(upload);
+      listings.set(upload, listing);
+      if ('error' in listing) continue;
+      imageCount += listing.imageNames.size;
+      unpackedSize += listing.unpackedSize;
+    }
+
+    if (imageCount > MAX_BATCH_IMAGES) {
+      return NextResponse.json(
+        { error: `Too many images. A batch can have at most ${MAX_BATCH_IMAGES} images.` },
+        { status: 400 }
+      );
+    }
+    if (unpackedSize > MAX_BATCH_UNPACKED_SIZE) {
+      return NextResponse.json(
+        { error: 'Archives too large once unpacked. The images in a batch can add up to at most 500MB.' },
+        { status: 400 }
+      );
+    }
+
+    const items: BatchItem[] = [];
+    const skippedArchiveEntries: string[] = [];
+    for (const upload of uploads) {
+      const listing = listings.get(upload);
+      if (!listing) {
+        items.push({ filename: upload.name, file: upload });
+        continue;
+      }
+
+      if ('error' in listing) {
+        items.push({ filename: upload.name, error: listing.error });
+        continue;
+      }
+
+      const images = await unpackZipImages(listing);
+      if ('error' in images) {
+        items.push({ filename: upload.name, error: images.error });
+        continue;
+      }
+      console.log(`📦 ${upload.name}: ${images.length} images, ${listing.skipped.length} other entries skipped`);
+      items.push(...images.map(image => ({ filename: `${upload.name}/${image.name}`, file: image })));
+      skippedArchiveEntries.push(...listing.skipped.map(name => `${upload.name}/${name}`));
+    }
+
+    // The same checks as single uploads, but a bad file only fails its own entry
+    for (const item of items) {
+      const validationError = item.file ? validateImageFile(item.file) : null;
+      if (validationError) item.error = validationError.error;
+    }
+
+    const extractionOptions = extractionOptionsFromForm(formData);
+    const explain = formData.get('explain') === 'true';
+    const cache = formData.get('skipCache') === 'true' ? null : getExtractionCache();
+
+    console.log(`🗂️ Batch extraction: ${items.length} images, ${BATCH_CONCURRENCY} at a time`);
+    const outcomes = await settleWithConcurrency(items, BATCH_CONCURRENCY, async item => {
+      if (item.error || !item.file) return null;
+      return extractFromImageFile(item.file, ocrProvider, { ...extractionOptions, imageUnderstanding, cache });
+    });
+
+    const results = items.map((item, index) => {
+      const outcome = outcomes[index];
+      if (item.error || outcome.status === 'rejected' || !outcome.value) {
+        const reason = outcome.status === 'rejected' ? outcome.reason : null;
+        return {
+          filename: item.filename,
+          success: false,
+          error: item.error || (reason instanceof Error ? reason.message : String(reason))
+        };
+      }
+
+      const extraction = outcome.value;
+      return {
+        filename: item.filename,
+        success: extraction.extracted !== null,
+        text: extraction.extracted
+          ? { ...extraction.extracted, nameCandidates: explain ? extraction.extracted.nameCandidates : undefined, words: undefined }
+          : undefined,
+        warnings: extraction.quality.warnings,
+        cache_hit: !!extraction.cacheHit,
+        captured_at: extraction.photo.capturedAt,
+        gps: extraction.photo.location,
+        error: extraction.extracted === null ? 'Skipped: image quality too low for OCR' : undefined
+      };
+    });
+
+    const succeeded = results.filter(result => result.success).length;
+    console.log(`✅ Batch extraction completed: ${succeeded}/${results.length} images read`);
+
+    return NextResponse.json({
+      success: true,
+      results,
+      summary: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded
+      },
+      metadata: {
+        processed_at: new Date().toISOString(),
+        ocr_provider: ocrProvider.name,
+        ocr_mode_requested: extractionOptions.ocrMode,
+        language_hints: extractionOptions.languageHints,
+        image_understanding: imageUnderstanding?.name,
+        cache: cache?.name,
+        concurrency: BATCH_CONCURRENCY,
+        skipped_archive_entries: skippedArchiveEntries
+      }
+    });
+
+  } catch (error) {
+    console.error('Extract Batch API Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process the batch',
+        details: process.env.NODE_ENV === 'development' ? error?.toString() : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to upload images or a ZIP archive.' },
+    { status: 405 }
+  );
+}
@@ -1,6 +1,13 @@
 // src/app/api/extract-text/route.ts
 
-import { extractTextWithEnhancedVision } from '@/lib/vision';
+import { extractFromImageFile, extractionOptionsFromForm, ImageExtraction } from '@/lib/extraction-pipeline';
+import { getExtractionCache } from '@/lib/extraction-cache';
+import { getUploadedImages, MAX_IMAGES_PER_BUSINESS, validateImageFile } from '@/lib/image-upload';
+import { hasAdjustments, parseImageAdjustments, REGION_MODES, RegionMode } from '@/lib/image-regions';
+import { getImageUnderstandingProvider } from '@/lib/image-understanding';
+import { mergeExtractedTexts } from '@/lib/merge';
+import { ExtractedText } from '@/lib/types';
+import { getOcrProvider } from '@/lib/ocr';
 import { NextRequest, NextResponse } from 'next/server';
 
 export const runtime = 'nodejs';
@@ -8,51 +15,120 @@ export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
   try {
-    // Check if the required environment variables are set
-    if (!process.env.GOOGLE_APPLICATION_CREDENTIALS && !process.env.GOOGLE_CLOUD_PROJECT_ID) {
+    // Resolve the OCR provider (OCR_PROVIDER, or Google Vision when configured, else Tesseract)
+    const ocrProvider = getOcrProvider();
+    if (!ocrProvider.isConfigured()) {
       return NextResponse.json(
-        { error: 'Google Cloud Vision API not configured. Please check your environment variables.' },
+        { error: 'Google Cloud Vision API not configured. Please check your environment variables or set OCR_PROVIDER=tesseract.' },
         { status: 500 }
       );
     }
 
+    // Optional logo and label detection (IMAGE_UNDERSTANDING_PROVIDER); skipped when unset or unconfigured
+    const understandingProvider = getImageUnderstandingProvider();
+    const imageUnderstanding = understandingProvider?.isConfigured() ? understandingProvider : null;
+
     const formData = await request.formData();
-    const file = formData.get('image') as File;
+    const files = getUploadedImages(formData);
 
-    if (!file) {
+    if (files.length === 0) {
       return NextResponse.json(
         { error: 'No image file provided' },
         { status: 400 }
       );
     }
 
-    // Validate file type and size
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    if (!allowedTypes.includes(file.type)) {
+    if (files.length > MAX_IMAGES_PER_BUSINESS) {
       return NextResponse.json(
-        { error: 'Invalid file type. Only JPEG, PNG, and WebP are supported.' },
+        { error: `Too many images. Upload at most ${MAX_IMAGES_PER_BUSINESS} images per business.` },
         { status: 400 }
       );
     }
 
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (file.size > maxSize) {
+    // Validate file type and size
+    for (const file of files) {
+      const validationError = validateImageFile(file);
+      if (validationError) {
+        return NextResponse.json(
+          { error: validationError.error },
+          { status: validationError.status }
+        );
+      }
+    }
+
+    // OCR mode, language hints, preprocessing toggles and the quality-check override
+    const extractionOptions = extractionOptionsFromForm(formData);
+
+    // Optional rotation and regions of interest per image, to ignore neighbouring shops' signs
+    const parsedAdjustments = parseImageAdjustments(formData.get('regions') as string | null, files.length);
+    if ('error' in parsedAdjustments) {
       return NextResponse.json(
-        { error: 'File too large. Maximum size is 5MB.' },
-        { status: 400 }
+        { error: parsedAdjustments.error },
+        { status: parsedAdjustments.status }
       );
     }
+    const { adjustments } = parsedAdjustments;
+    const requestedRegionMode = formData.get('regionMode') as RegionMode | null;
+    const regionMode: RegionMode = requestedRegionMode && REGION_MODES.includes(requestedRegionMode) ? requestedRegionMode : 'crop';
+
+    // Include every ranked name candidate with its score breakdown
+    const explain = formData.get('explain') === 'true';
+
+    // Include every OCR word box, tagged with its field, and a preview of each image to draw them on
+    const includeWords = formData.get('includeWords') === 'true';
+
+    // Reuse text read from the same photo (EXTRACTION_CACHE), unless asked to re-read
+    const cache = formData.get('skipCache') === 'true' ? null : getExtractionCache();
+
+    // Normalize and OCR each image independently; one unreadable photo should not sink the others
+    const outcomes = await Promise.allSettled(
+      files.map((file, index) => extractFromImageFile(file, ocrProvider, {
+        ...extractionOptions,
+        includePreview: includeWords,
+        imageUnderstanding,
+        cache,
+        adjustments: adjustments[index],
+        regionMode
+      }))
+    );
 
-    console.log(`Processing image: ${file.name} (${file.size} bytes, ${file.type})`);
+    const fulfilled = outcomes
+      .filter((outcome): outcome is PromiseFulfilledResult<ImageExtraction> => outcome.status === 'fulfilled')
+      .map(outcome => outcome.value);
 
-    // Convert file to buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    // Quality warnings for every image, tagged with the file they belong to
+    const warnings = files.flatMap((file, index) => {
+      const outcome = outcomes[index];
+      return outcome.status === 'fulfilled'
+        ? outcome.value.quality.warnings.map(warning => ({ filename: file.name, ...warning }))
+        : [];
+    });
+
+    const extractedResults = fulfilled
+      .map(extraction => extraction.extracted)
+      .filter((extracted): extracted is ExtractedText => extracted !== null);
 
-    // Extract text using Enhanced Vision (Google Vision + Smart Post-Processing)
-    const extractedData = await extractTextWithEnhancedVision(buffer);
+    if (extractedResults.length === 0) {
+      if (fulfilled.length === 0) {
+        throw (outcomes[0] as PromiseRejectedResult).reason;
+      }
+
+      // Every readable upload was ruled out by the quality check; say why instead of a generic OCR failure
+      const blocking = warnings.find(warning => warning.severity === 'error')!;
+      return NextResponse.json(
+        {
+          error: `${blocking.message} ${blocking.guidance}`,
+          warnings
+        },
+        { status: 422 }
+      );
+    }
+
+    const extractedData = mergeExtractedTexts(extractedResults);
+    const firstSuccess = fulfilled.find(extraction => extraction.extracted !== null);
 
     console.log('Enhanced Vision extraction completed:', {
+      images: `${extractedResults.length}/${files.length}`,
       businessNames: extractedData.businessNames.length,
       addresses: extractedData.addresses.length,
       phoneNumbers: extractedData.phoneNumbers.length,
@@ -63,13 +139,57 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      text: extractedData,
+      text: {
+        ...extractedData,
+        nameCandidates: explain ? extractedData.nameCandidates : undefined,
+        words: includeWords ? extractedData.words : undefined
+      },
+      warnings,
       metadata: {
-        filename: file.name,
-        size: file.size,
-        type: file.type,
+        filename: files[0].name,
+        size: files[0].size,
+        type: files[0].type,
+        image_count: files.length,
+        original_dimensions: firstSuccess?.originalDimensions,
+        normalized_dimensions: firstSuccess?.normalizedDimensions,
+        captured_at: extractedData.capturedAt,
+        gps: extractedData.photoLocation,
+        images: files.map((file, index) => {
+          const outcome = outcomes[index];
+          const skippedForQuality = outcome.status === 'fulfilled' && outcome.value.extracted === null;
+          return {
+            filename: file.name,
+            size: file.size,
+            type: file.type,
+            success: outcome.status === 'fulfilled' && !skippedForQuality,
+            original_dimensions: outcome.status === 'fulfilled' ? outcome.value.originalDimensions : undefined,
+            normalized_dimensions: outcome.status === 'fulfilled' ? outcome.value.normalizedDimensions : undefined,
+            normalization_steps: outcome.status === 'fulfilled' ? outcome.value.normalizationSteps : undefined,
+            ocr_mode: outcome.status === 'fulfilled' ? outcome.value.extracted?.ocrMode : undefined,
+            quality: outcome.status === 'fulfilled' ? outcome.value.quality : undefined,
+            preview: outcome.status === 'fulfilled' ? outcome.value.preview : undefined,
+            cache_hit: outcome.status === 'fulfilled' ? !!outcome.value.cacheHit : undefined,
+            cache_match: outcome.status === 'fulfilled' ? outcome.value.cacheHit : undefined,
+            captured_at: outcome.status === 'fulfilled' ? outcome.value.photo.capturedAt : undefined,
+            gps: outcome.status === 'fulfilled' && outcome.value.photo.location
+              ? { ...outcome.value.photo.location, accuracy_meters: outcome.value.photo.locationAccuracy }
+              : undefined,
+            regions: hasAdjustments(adjustments[index]) ? adjustments[index] : undefined,
+            error: outcome.status === 'rejected'
+              ? (outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason))
+              : skippedForQuality ? 'Skipped: image quality too low for OCR' : undefined
+          };
+        }),
         processed_at: new Date().toISOString(),
-        ocr_method: 'enhanced_vision' // Indicate which OCR method was used
+        ocr_method: 'enhanced_vision', // Indicate which OCR method was used
+        explained: explain,
+        ocr_provider: ocrProvider.name,
+        ocr_mode_requested: extractionOptions.ocrMode,
+        language_hints: extractionOptions.languageHints,
+        image_understanding: imageUnderstanding?.name,
+        cache: cache?.name,
+        cache_hit: fulfilled.some(extraction => extraction.cacheHit),
+        region_mode: adjustments.some(hasAdjustments) ? regionMode : undefined
       }
     });
 
@@ -105,7 +225,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET() {
   return NextResponse.json(
-    { error: 'Method not allowed. Use POST to upload an image.' },
+    { error: 'Method not allowed. Use POST to upload one or more images.' },
     { status: 405 }
   );
 }
\ No newline at end of file
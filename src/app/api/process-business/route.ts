@@ -1,8 +1,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // src/app/api/process-business/route.ts
-import { formatBusinessHours, searchBusiness, getMultiplePlacesOptions } from '@/lib/places';
-import { BusinessData, ExtractedText } from '@/lib/types';
+import { createPlaceDetailsCache, formatBusinessHours, searchBusiness, getMultiplePlacesOptions, PlaceDetailsCache, withPlaceDetails } from '@/lib/places';
+import { BusinessData, ExtractedText, PlacesResult, PostalAddress, SocialProfile } from '@/lib/types';
 import { searchBusinessOnWeb, getMultipleWebOptions } from '@/lib/websearch';
+import { formatLocation, parseAddress } from '@/lib/address';
+import { getWeeklyOpenHours, toWeekdayText } from '@/lib/hours';
+import { normalizePhoneNumber } from '@/lib/phone';
+import { isSocialUrl } from '@/lib/social';
+import { transliterateName } from '@/lib/script';
+import { extractPriceList } from '@/lib/menu';
+import { distanceInMeters, formatDistance } from '@/lib/geo';
+import { analyzeCompetition, CompetitionAnalysis } from '@/lib/competition';
+import { LocationScore, scoreLocation } from '@/lib/location-score';
+import { findClearWinner, rankCandidates, RankedCandidate } from '@/lib/candidate-matching';
 import { categorizeBusinessIndustry, estimateBusinessValue, ValuationFactors } from '@/lib/valuation';
 import { NextRequest, NextResponse } from 'next/server';
 
@@ -16,6 +26,7 @@ interface LocationOption {
   rating?: number;
   user_ratings_total?: number;
   business_status?: string;
+  price_level?: number;
   types?: string[];
   geometry?: {
     location: {
@@ -23,6 +34,46 @@ interface LocationOption {
       lng: number;
     };
   };
+  distance_meters?: number; // From where the photo was taken
+  match_score?: number;     // 0-100 against the name, phone, address and position in the photo
+  match_reasons?: string[];
+}
+
+// Leading candidates whose details are fetched so their phone numbers can be compared with the photo's
+const PHONE_CHECK_CANDIDATES = 3;
+
+function toLocationOption(option: RankedCandidate<PlacesResult>): LocationOption {
+  return {
+    place_id: option.place_id,
+    name: option.name,
+    formatted_address: option.formatted_address || 'Address not available',
+    rating: option.rating,
+    user_ratings_total: option.user_ratings_total,
+    business_status: option.business_status,
+    price_level: option.price_level,
+    types: option.types,
+    geometry: option.geometry,
+    distance_meters: option.distance_meters,
+    match_score: option.match.score,
+    match_reasons: option.match.reasons
+  };
+}
+
+/**
+ * Search with the name as read off the sign, then with its Latin spelling when
+ * nothing is found: Cyrillic and Korean businesses are often listed romanized.
+ */
+async function searchWithTransliteration<T>(
+  businessName: string,
+  search: (name: string) => Promise<T>,
+  found: (result: T) => boolean
+): Promise<T> {
+  const result = await search(businessName);
+  const latinName = transliterateName(businessName);
+  if (found(result) || !latinName) return result;
+
+  console.log(`🔤 Nothing found for "${businessName}", retrying as "${latinName}"`);
+  return search(latinName);
 }
 
 export async function POST(request: NextRequest) {
@@ -45,49 +96,65 @@ export async function POST(request: NextRequest) {
     const businessName = extractedText.businessNames[0] || 'Unknown Business';
     console.log(`🔍 Running comprehensive analysis for: "${businessName}"`);
 
+    // Details lookups are shared by every step of this request
+    const placeDetails = createPlaceDetailsCache();
+
     // If a specific location was selected, process only that one
     if (selectedLocation) {
       console.log(`🎯 Processing selected location: "${selectedLocation.name}"`);
-      return await processSingleLocation(extractedText, selectedLocation, businessName);
+      return await processSingleLocation(extractedText, selectedLocation, businessName, placeDetails);
     }
 
     // Otherwise, get multiple options and check if disambiguation is needed
     console.log('🔍 Searching for multiple location options...');
     
     const [placesOptions, webData] = await Promise.all([
-      getMultiplePlacesOptions(businessName, extractedText.addresses[0]).catch(err => {
+      searchWithTransliteration(
+        businessName,
+        name => getMultiplePlacesOptions(name, extractedText.addresses[0], extractedText.photoLocation),
+        options => options.length > 0
+      ).catch(err => {
         console.error('Multiple places search error:', err);
         return [];
       }),
-      searchBusinessOnWeb(businessName).catch(err => {
+      searchWithTransliteration(businessName, searchBusinessOnWeb, data => !!data).catch(err => {
         console.error('Web search error:', err);
         return null;
       })
     ]);
 
     console.log(`📍 Found ${placesOptions.length} location options from Places API`);
-    placesOptions.forEach((option, index) => {
-      console.log(`  Option ${index + 1}: ${option.name} - ${option.formatted_address}`);
+
+    // Rank the options against the photo. Search results carry no phone numbers, so when the
+    // photo shows one, the leaders' details are fetched (and reused once a location is chosen)
+    let rankedOptions = rankCandidates(placesOptions, extractedText);
+    if (rankedOptions.length > 1 && extractedText.phoneNumbers.length > 0) {
+      const checked = await Promise.all(
+        rankedOptions.slice(0, PHONE_CHECK_CANDIDATES).map(option => withPlaceDetails(option, placeDetails))
+      );
+      rankedOptions = rankCandidates([...checked, ...rankedOptions.slice(PHONE_CHECK_CANDIDATES)], extractedText);
+    }
+    rankedOptions.forEach((option, index) => {
+      console.log(`  Option ${index + 1}: ${option.name} - ${option.formatted_address} (match ${option.match.score}: ${option.match.reasons.join(', ')}${option.distance_meters !== undefined ? `, ${formatDistance(option.distance_meters)} from photo` : ''})`);
     });
 
+    // A clear winner is processed without asking the user, who can still switch to another option
+    const winner = findClearWinner(rankedOptions);
+    if (winner && rankedOptions.length > 1) {
+      console.log(`✅ Auto-selected "${winner.name}" (match ${winner.match.score}, next best ${rankedOptions[1].match.score})`);
+      return await processSingleLocation(extractedText, winner, businessName, placeDetails, webData, rankedOptions.map(toLocationOption));
+    }
+
     // If multiple locations found, return them for user selection
-    if (placesOptions.length > 1) {
+    if (rankedOptions.length > 1) {
       console.log('🔀 Multiple locations detected - returning options for user selection');
       
-      const locationOptions: LocationOption[] = placesOptions.map(option => ({
-        place_id: option.place_id,
-        name: option.name,
-        formatted_address: option.formatted_address || 'Address not available',
-        rating: option.rating,
-        user_ratings_total: option.user_ratings_total,
-        business_status: option.business_status,
-        types: option.types,
-        geometry: option.geometry
-      }));
+      const locationOptions = rankedOptions.map(toLocationOption);
 
       // Still generate primary business data from the first result as fallback
-      const primaryBusinessData = generateBusinessData(extractedText, placesOptions[0], webData);
-      const valuationFactors = extractValuationFactors(primaryBusinessData, placesOptions[0], webData, extractedText);
+      // (competition and location are analyzed once the user has picked a location)
+      const primaryBusinessData = generateBusinessData(extractedText, rankedOptions[0], webData);
+      const valuationFactors = extractValuationFactors(primaryBusinessData, rankedOptions[0], webData, extractedText, null, null);
       const valuation = estimateBusinessValue(valuationFactors);
       primaryBusinessData.valuation = valuation;
 
@@ -107,9 +174,9 @@ export async function POST(request: NextRequest) {
 
     // Single location or no locations found - process normally
     console.log('🎯 Single location detected or no locations found - processing normally');
-    const placesData = placesOptions[0] || null;
+    const placesData = rankedOptions[0] || null;
     
-    return await processSingleLocation(extractedText, placesData, businessName, webData);
+    return await processSingleLocation(extractedText, placesData, businessName, placeDetails, webData);
 
   } catch (error) {
     console.error('Process Business API Error:', error);
@@ -127,24 +194,32 @@ async function processSingleLocation(
   extractedText: ExtractedText, 
   placesData: any, 
   businessName: string, 
-  webData?: any
+  placeDetails: PlaceDetailsCache,
+  webData?: any,
+  autoSelectedFrom?: LocationOption[] // The ranked options placesData was picked from without asking
 ) {
   console.log(`🏢 Processing single location: "${placesData?.name || businessName}"`);
   
-  // If webData not provided, fetch it
-  if (!webData) {
-    webData = await searchBusinessOnWeb(businessName).catch(err => {
+  // Search results and picked locations lack phone, website and hours, so fetch the place's details,
+  // the web data if it was not provided, and the competitors and anchors around the place
+  let competition: CompetitionAnalysis | null;
+  let locationScore: LocationScore | null;
+  [placesData, webData, competition, locationScore] = await Promise.all([
+    placesData?.place_id ? withPlaceDetails(placesData, placeDetails) : placesData,
+    webData || searchWithTransliteration(businessName, searchBusinessOnWeb, data => !!data).catch(err => {
       console.error('Web search error:', err);
       return null;
-    });
-  }
+    }),
+    placesData?.place_id ? analyzeCompetition(placesData) : null,
+    placesData?.geometry?.location ? scoreLocation(placesData.geometry.location) : null
+  ]);
 
   // Generate comprehensive business data
   const businessData = generateBusinessData(extractedText, placesData, webData);
 
   // Generate business valuation
   console.log('💰 Starting business valuation analysis...');
-  const valuationFactors = extractValuationFactors(businessData, placesData, webData, extractedText);
+  const valuationFactors = extractValuationFactors(businessData, placesData, webData, extractedText, competition, locationScore);
   const valuation = estimateBusinessValue(valuationFactors);
 
   // Add valuation to business data
@@ -161,6 +236,8 @@ async function processSingleLocation(
     success: true,
     businessData,
     hasMultipleLocations: false,
+    autoSelected: !!autoSelectedFrom,
+    locationOptions: autoSelectedFrom,
     metadata: {
       processed_at: new Date().toISOString(),
       sources_used: [
@@ -189,30 +266,43 @@ function generateBusinessData(
   // Use the new industry categorization
   const businessType = categorizeBusinessIndustry(
     placesData?.name || webData?.businessType || 'Business',
-    placesData?.types
+    // Places API (New) names the main type; it outranks the rest of the list
+    placesData?.primary_type ? [placesData.primary_type, ...(placesData.types || [])] : placesData?.types,
+    extractedText.categoryHints
   );
   console.log(`   Categorized business type: "${businessType}"`);
 
+  // Structured address from the best available source
+  const addressComponents = selectAddressComponents(placesData, webData, extractedText);
+
   // Generate comprehensive description
-  const description = generateBusinessDescription(businessName, businessType, placesData, webData, extractedText);
+  const description = generateBusinessDescription(businessName, businessType, placesData, addressComponents);
+
+  // Normalize whichever phone source wins to E.164, keeping the raw text if it will not parse
+  const phone = selectPhoneNumber(placesData, webData, extractedText);
+
+  const locationWarning = checkPhotoDistance(extractedText, placesData);
+
+  // Fall back to hours read off the signage when Places has none
+  const openingHours = placesData?.opening_hours || getSignageOpeningHours(extractedText);
 
   const businessData = {
     businessName,
     businessType,
-    address: placesData?.formatted_address || webData?.address || extractedText.addresses[0] || 'Not Available',
-    phone: placesData?.international_phone_number || webData?.phone || extractedText.phoneNumbers[0] || 'Not Available',
+    address: addressComponents?.formatted || 'Not Available',
+    addressComponents: addressComponents || undefined,
+    phone: phone?.display || 'Not Available',
+    phoneE164: phone?.e164,
     website: placesData?.website || webData?.website || extractedText.websites[0] || 'Not Available',
     email: extractedText.emails[0] || 'Not Available',
+    socialProfiles: extractedText.socialProfiles || [],
     description,
-    location: extractCityState(placesData?.formatted_address || webData?.address) || 'Location not specified',
-    hours: formatBusinessHours(placesData?.opening_hours) || 'Not Available',
+    location: formatLocation(addressComponents) || 'Location not specified',
+    hours: formatBusinessHours(openingHours) || 'Not Available',
     rating: placesData?.rating || undefined,
     reviews: placesData?.user_ratings_total || undefined,
-    ownerInfo: {
-      name: 'Not Available',
-      phone: 'Not Available',
-      email: 'Not Available'
-    }
+    ownerInfo: selectOwnerContact(extractedText),
+    ...(locationWarning ? { locationWarning } : {})
   };
 
   console.log('✅ Business data generated:', {
@@ -227,20 +317,90 @@ function generateBusinessData(
   return businessData;
 }
 
+// Farther than this from where the photo was taken, the match is probably another branch or namesake
+const PHOTO_DISTANCE_WARNING_METERS = 2000;
+
+function checkPhotoDistance(extractedText: ExtractedText, placesData: any): string | undefined {
+  const placeLocation = placesData?.geometry?.location;
+  if (!extractedText.photoLocation || !placeLocation) return undefined;
+
+  const distance = distanceInMeters(extractedText.photoLocation, placeLocation);
+  console.log(`   Distance from photo to "${placesData.name}": ${formatDistance(distance)}`);
+  if (distance <= PHOTO_DISTANCE_WARNING_METERS) return undefined;
+
+  console.log('   ⚠️ Selected place is far from where the photo was taken');
+  return `This listing is ${formatDistance(distance)} from where the photo was taken. Check that it is the same business.`;
+}
+
+// A business card block with a person's name keeps their title, phone and email together
+function selectOwnerContact(extractedText: ExtractedText): BusinessData['ownerInfo'] {
+  const block = extractedText.blocks?.find(b => b.personName && (b.phones.length > 0 || b.emails.length > 0));
+  if (!block) {
+    return { name: 'Not Available', phone: 'Not Available', email: 'Not Available' };
+  }
+
+  console.log(`   Owner contact from document block: "${block.personName}"${block.jobTitle ? ` (${block.jobTitle})` : ''}`);
+  return {
+    name: block.jobTitle ? `${block.personName}, ${block.jobTitle}` : block.personName!,
+    phone: block.phones[0]?.display || 'Not Available',
+    email: block.emails[0] || 'Not Available'
+  };
+}
+
+function selectAddressComponents(
+  placesData: any,
+  webData: any,
+  extractedText: ExtractedText
+): PostalAddress | null {
+  const address = parseAddress(placesData?.formatted_address) ||
+    parseAddress(webData?.address) ||
+    extractedText.addressComponents?.[0] ||
+    parseAddress(extractedText.addresses[0]);
+
+  if (address) {
+    console.log(`   Selected address: "${address.formatted}"`, address);
+  }
+  return address;
+}
+
+function selectPhoneNumber(
+  placesData: any,
+  webData: any,
+  extractedText: ExtractedText
+): { display: string; e164?: string } | null {
+  const candidates = [
+    placesData?.international_phone_number,
+    webData?.phone,
+    ...(extractedText.phones?.map(phone => phone.e164) || extractedText.phoneNumbers)
+  ].filter(Boolean) as string[];
+  
+  for (const candidate of candidates) {
+    const normalized = normalizePhoneNumber(candidate);
+    if (normalized) {
+      console.log(`   Selected phone: "${normalized.display}" (${normalized.e164})`);
+      return normalized;
+    }
+  }
+  
+  return candidates[0] ? { display: candidates[0] } : null;
+}
+
 function extractValuationFactors(
   businessData: BusinessData,
   placesData: any,
   webData: any,
-  extractedText: ExtractedText
+  extractedText: ExtractedText,
+  competition: CompetitionAnalysis | null,
+  locationScore: LocationScore | null
 ): ValuationFactors {
   console.log('📊 Extracting valuation factors...');
 
-  // Determine location quality from address and places data
-  const locationQuality = assessLocationQuality(businessData.address, placesData);
-  console.log(`   Location quality: ${locationQuality}`);
+  // Determine location quality from the anchors around the place, or places data without them
+  const locationQuality = assessLocationQuality(businessData.address, placesData, locationScore);
+  console.log(`   Location quality: ${locationQuality}${locationScore ? ` (score ${locationScore.score}/100)` : ''}`);
 
   // Determine web presence quality
-  const webPresenceQuality = assessWebPresenceQuality(webData, businessData.website);
+  const webPresenceQuality = assessWebPresenceQuality(webData, businessData.website, businessData.socialProfiles || []);
   console.log(`   Web presence quality: ${webPresenceQuality}`);
 
   // Estimate years in business
@@ -256,9 +416,13 @@ function extractValuationFactors(
   console.log(`   Business size: ${businessSize}`);
 
   // Determine operating hours pattern
-  const operatingHours = assessOperatingHours(placesData);
+  const operatingHours = assessOperatingHours(placesData, extractedText);
   console.log(`   Operating hours: ${operatingHours}`);
 
+  // Prices from a photographed menu or price board
+  const priceList = extractPriceList(extractedText);
+  console.log(`   Menu prices: ${priceList ? `${priceList.items.length} items, average ticket ${priceList.currency || ''}${priceList.averageTicket}` : 'None'}`);
+
   return {
     businessType: businessData.businessType,
     location: businessData.location,
@@ -268,24 +432,32 @@ function extractValuationFactors(
     hasWebsite: businessData.website !== 'Not Available',
     webPresenceQuality,
     locationQuality,
+    locationScore: locationScore?.score,
+    locationExplanation: locationScore?.explanation,
     equipmentQuality,
     businessSize,
-    operatingHours
+    operatingHours,
+    averageTicket: priceList?.averageTicket,
+    ticketCurrency: priceList?.currency,
+    placesPriceLevel: placesData?.price_level,
+    competitorCount: competition?.competitorCount,
+    competitorAverageRating: competition?.averageRating,
+    nearestCompetitorMeters: competition?.nearestDistanceMeters,
+    competitionRadiusMeters: competition?.radiusMeters
   };
 }
 
-function assessLocationQuality(address: string, placesData: any): 'poor' | 'average' | 'good' | 'excellent' {
-  // Basic assessment based on address and places data
+function assessLocationQuality(
+  address: string,
+  placesData: any,
+  locationScore: LocationScore | null
+): 'poor' | 'average' | 'good' | 'excellent' {
+  // Transit, shops and offices nearby are the best foot-traffic signal we have
+  if (locationScore) return locationScore.quality;
+
   if (!address || address === 'Not Available') return 'poor';
   
-  // Check for premium location indicators
-  if (address.toLowerCase().includes('downtown') || 
-      address.toLowerCase().includes('main st') ||
-      address.toLowerCase().includes('center')) {
-    return 'excellent';
-  }
-  
-  // Use rating as a proxy for location quality
+  // Without coordinates, use rating as a proxy for location quality
   if (placesData?.rating >= 4.5) return 'excellent';
   if (placesData?.rating >= 4.0) return 'good';
   if (placesData?.rating >= 3.5) return 'average';
@@ -293,16 +465,29 @@ function assessLocationQuality(address: string, placesData: any): 'poor' | 'aver
   return 'average'; // Default assumption
 }
 
-function assessWebPresenceQuality(webData: any, website: string): 'poor' | 'average' | 'good' | 'excellent' {
-  if (!webData || webData.isGenericFallback) return 'poor';
-  if (website === 'Not Available') return 'poor';
+function assessWebPresenceQuality(
+  webData: any,
+  website: string,
+  socialProfiles: SocialProfile[]
+): 'poor' | 'average' | 'good' | 'excellent' {
+  // Profiles on named platforms count; a bare "@handle" could be anywhere
+  const platforms = new Set(socialProfiles.filter(p => p.platform !== 'unknown').map(p => p.platform));
+  const hasWebsite = website !== 'Not Available' && !!webData && !webData.isGenericFallback;
+  
+  // Many small businesses only advertise an Instagram or Facebook page
+  if (!hasWebsite) return platforms.size > 0 ? 'average' : 'poor';
   
   // Basic assessment - could be enhanced with actual website analysis
-  if (webData.description && webData.description.length > 200) return 'good';
-  if (website.includes('facebook') || website.includes('instagram')) return 'average';
-  if (website.endsWith('.com') && !website.includes('facebook')) return 'good';
+  let quality: 'average' | 'good' | 'excellent' = 'average';
+  if (webData.description && webData.description.length > 200) quality = 'good';
+  else if (website.includes('facebook') || website.includes('instagram')) quality = 'average';
+  else if (website.endsWith('.com')) quality = 'good';
+  
+  // An own site backed by active social accounts
+  if (quality === 'good' && platforms.size >= 2) return 'excellent';
+  if (quality === 'average' && platforms.size >= 1 && !isSocialUrl(website)) return 'good';
   
-  return 'average';
+  return quality;
 }
 
 function estimateYearsInBusiness(placesData: any, webData: any): number | undefined {
@@ -337,8 +522,17 @@ function assessBusinessSize(placesData: any, webData: any, extractedText: Extrac
   return 'micro';
 }
 
-function assessOperatingHours(placesData: any): 'limited' | 'standard' | 'extended' {
-  if (!placesData?.opening_hours?.weekday_text) return 'standard';
+function getSignageOpeningHours(extractedText: ExtractedText): { weekday_text: string[] } | undefined {
+  if (!extractedText.openingHours?.length) return undefined;
+  
+  console.log(`   Using ${extractedText.openingHours.length} days of hours parsed from signage`);
+  return { weekday_text: toWeekdayText(extractedText.openingHours) };
+}
+
+function assessOperatingHours(placesData: any, extractedText: ExtractedText): 'limited' | 'standard' | 'extended' {
+  if (!placesData?.opening_hours?.weekday_text) {
+    return assessSignageOperatingHours(extractedText);
+  }
   
   const hoursText = placesData.opening_hours.weekday_text.join(' ').toLowerCase();
   
@@ -348,16 +542,34 @@ function assessOperatingHours(placesData: any): 'limited' | 'standard' | 'extend
   return 'standard';
 }
 
+function assessSignageOperatingHours(extractedText: ExtractedText): 'limited' | 'standard' | 'extended' {
+  const hours = extractedText.openingHours;
+  if (!hours?.length) return 'standard'; // No hours from Places or signage
+  
+  const openDays = hours.filter(entry => !entry.closed);
+  const closedDays = hours.filter(entry => entry.closed).length;
+  const weeklyHours = getWeeklyOpenHours(hours);
+  // Closing at midnight or later, or before opening, means the business runs late
+  const lateNights = openDays.filter(entry => entry.close === '24:00' || entry.close! >= '23:00' || entry.close! <= entry.open!).length;
+  
+  // Scale to a full week when the sign only lists some days
+  const projectedWeeklyHours = (weeklyHours / hours.length) * 7;
+  
+  if (lateNights >= 3 || projectedWeeklyHours >= 90) return 'extended';
+  if (closedDays >= 3 || projectedWeeklyHours < 40) return 'limited';
+  
+  return 'standard';
+}
+
 function generateBusinessDescription(
   businessName: string,
   businessType: string,
   placesData: any,
-  webData: any,
-  extractedText: ExtractedText
+  addressComponents: PostalAddress | null
 ): string {
   console.log(`📝 Generating description for ${businessName}...`);
   
-  const location = extractCityState(placesData?.formatted_address || webData?.address) || 'the local area';
+  const location = formatLocation(addressComponents) || 'the local area';
   
   let description = `${businessName} is a ${businessType.toLowerCase()}`;
   
@@ -400,18 +612,6 @@ function generateBusinessDescription(
   return description;
 }
 
-function extractCityState(address?: string): string | null {
-  if (!address) return null;
-  
-  const parts = address.split(',').map(part => part.trim());
-  if (parts.length >= 3) {
-    const cityState = parts[parts.length - 2];
-    return cityState;
-  }
-  
-  return null;
-}
-
 export async function GET() {
   return NextResponse.json(
     { error: 'Method not allowed. Use POST to process business information.' },
@@ -6,7 +6,8 @@ import React, { useState } from 'react';
 import FileUpload from './FileUpload';
 import ProcessingView from './ProcessingView';
 import BusinessNameConfirmation from './BusinessNameConfirmation';
-import { BusinessData, CurrentStep, ProcessingStep } from '@/lib/ui-types';
+import { BusinessData, CorrectableField, CurrentStep, ImageAdjustments, NameCandidate, OcrImagePreview, OcrModePreference, ProcessingStep, RegionMode, WordBox } from '@/lib/ui-types';
+import { hasAdjustments, NO_ADJUSTMENTS } from '@/lib/image-regions';
 import BusinessResults from './BusinessResult';
 import LocationSelector from './LocationSelector';
 
@@ -19,6 +20,7 @@ interface LocationOption {
   rating?: number;
   user_ratings_total?: number;
   business_status?: string;
+  price_level?: number;
   types?: string[];
   geometry?: {
     location: {
@@ -26,15 +28,22 @@ interface LocationOption {
       lng: number;
     };
   };
+  distance_meters?: number; // From where the photo was taken
+  match_score?: number;     // 0-100 against the name, phone, address and position in the photo
+  match_reasons?: string[];
 }
 
 interface ExtractedTextData {
   businessNames: string[];
+  nameCandidates?: NameCandidate[];
   addresses: string[];
+  addressComponents?: unknown[]; // Structured forms are dropped when the user corrects the text
   phoneNumbers: string[];
+  phones?: unknown[];
   websites: string[];
   emails: string[];
   otherText: string[];
+  words?: WordBox[];
   confidence: {
     businessName: 'High' | 'Medium' | 'Low';
     address: 'High' | 'Medium' | 'Low';
@@ -46,6 +55,7 @@ interface ProcessBusinessResponse {
   success: boolean;
   businessData: BusinessData;
   hasMultipleLocations: boolean;
+  autoSelected?: boolean; // The best match was picked without asking; locationOptions lists what it was picked from
   locationOptions?: LocationOption[];
   metadata: {
     processed_at: string;
@@ -57,10 +67,15 @@ interface ProcessBusinessResponse {
 
 const BusinessListingGenerator: React.FC = () => {
   const [currentStep, setCurrentStep] = useState<ExtendedStep>('upload');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [ocrMode, setOcrMode] = useState<OcrModePreference>('auto');
+  const [imageAdjustments, setImageAdjustments] = useState<Map<File, ImageAdjustments>>(new Map());
+  const [regionMode, setRegionMode] = useState<RegionMode>('crop');
+  const [signLanguage, setSignLanguage] = useState<string>('');
   const [processingProgress, setProcessingProgress] = useState<number>(0);
   const [businessData, setBusinessData] = useState<BusinessData | null>(null);
   const [extractedTextData, setExtractedTextData] = useState<ExtractedTextData | null>(null);
+  const [ocrImages, setOcrImages] = useState<OcrImagePreview[]>([]);
   const [confirmedBusinessName, setConfirmedBusinessName] = useState<string>('');
   const [locationOptions, setLocationOptions] = useState<LocationOption[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -77,12 +92,16 @@ const BusinessListingGenerator: React.FC = () => {
     { id: 'generate', title: 'Generating business listing', progress: 100 }
   ];
 
-  const handleFileSelect = (file: File | null): void => {
-    setSelectedFile(file);
+  const handleFilesSelect = (files: File[]): void => {
+    setSelectedFiles(files);
     setError(null);
     setIsManualInput(false);
   };
 
+  const handleImageAdjustmentsChange = (file: File, adjustments: ImageAdjustments): void => {
+    setImageAdjustments(previous => new Map(previous).set(file, adjustments));
+  };
+
   const handleManualSubmit = async (businessName: string): Promise<void> => {
     console.log('Manual business name submitted:', businessName);
     
@@ -123,7 +142,7 @@ const BusinessListingGenerator: React.FC = () => {
   };
 
   const processImage = async (): Promise<void> => {
-    if (!selectedFile) return;
+    if (selectedFiles.length === 0) return;
 
     setIsManualInput(false);
     setCurrentStep('processing');
@@ -131,10 +150,25 @@ const BusinessListingGenerator: React.FC = () => {
     setError(null);
 
     try {
-      // Step 1: Extract text from image
+      // Step 1: Extract text from the image(s)
       setProcessingProgress(33);
       const formData = new FormData();
-      formData.append('image', selectedFile);
+      selectedFiles.forEach(file => formData.append('images', file));
+      // Ask for the scored candidates so the confirmation step can explain its suggestions
+      formData.append('explain', 'true');
+      formData.append('ocrMode', ocrMode);
+      // Signs in other languages usually carry some English too (phone labels, "Open")
+      if (signLanguage) {
+        formData.append('languageHints', `${signLanguage},en`);
+      }
+      // Word boxes and previews let the confirmation step pick text straight off the photo
+      formData.append('includeWords', 'true');
+      // Rotation and marked areas, one entry per image in upload order
+      const adjustments = selectedFiles.map(file => imageAdjustments.get(file) || NO_ADJUSTMENTS);
+      if (adjustments.some(hasAdjustments)) {
+        formData.append('regions', JSON.stringify(adjustments));
+        formData.append('regionMode', regionMode);
+      }
 
       const extractResponse = await fetch('/api/extract-text', {
         method: 'POST',
@@ -148,6 +182,17 @@ const BusinessListingGenerator: React.FC = () => {
 
       const extractedData = await extractResponse.json();
       setExtractedTextData(extractedData.text);
+      // Word image indexes count only the images that were read, in upload order
+      setOcrImages(
+        (extractedData.metadata.images as any[])
+          .filter(image => image.success)
+          .map(image => ({
+            filename: image.filename,
+            preview: image.preview,
+            width: image.normalized_dimensions?.width || 0,
+            height: image.normalized_dimensions?.height || 0
+          }))
+      );
 
       // Check if we need confirmation based on confidence or business name quality
       const needsConfirmation = shouldRequestConfirmation(extractedData.text);
@@ -217,6 +262,21 @@ const BusinessListingGenerator: React.FC = () => {
     }
   };
 
+  const handleFieldCorrection = (field: Exclude<CorrectableField, 'name'>, value: string): void => {
+    setExtractedTextData(previous => {
+      if (!previous) return previous;
+      const promote = (values: string[]) => [value, ...values.filter(existing => existing !== value)];
+      switch (field) {
+        case 'phone':
+          return { ...previous, phoneNumbers: promote(previous.phoneNumbers), phones: undefined };
+        case 'address':
+          return { ...previous, addresses: promote(previous.addresses), addressComponents: undefined };
+        case 'website':
+          return { ...previous, websites: promote(previous.websites) };
+      }
+    });
+  };
+
   const continueProcessing = async (
     textData: ExtractedTextData, 
     businessName: string, 
@@ -262,6 +322,11 @@ const BusinessListingGenerator: React.FC = () => {
         return;
       }
 
+      // Keep the options a location was picked from automatically, so the user can switch
+      if (result.autoSelected && result.locationOptions) {
+        setLocationOptions(result.locationOptions);
+      }
+
       // Step 3: Complete processing
       setProcessingProgress(100);
       await new Promise<void>(resolve => setTimeout(resolve, 500));
@@ -327,7 +392,7 @@ const BusinessListingGenerator: React.FC = () => {
 
   const reset = (): void => {
     setCurrentStep('upload');
-    setSelectedFile(null);
+    setSelectedFiles([]);
     setBusinessData(null);
     setExtractedTextData(null);
     setConfirmedBusinessName('');
@@ -341,8 +406,16 @@ const BusinessListingGenerator: React.FC = () => {
   if (currentStep === 'upload') {
     return (
       <FileUpload
-        selectedFile={selectedFile}
-        onFileSelect={handleFileSelect}
+        selectedFiles={selectedFiles}
+        onFilesSelect={handleFilesSelect}
+        ocrMode={ocrMode}
+        onOcrModeChange={setOcrMode}
+        imageAdjustments={imageAdjustments}
+        onImageAdjustmentsChange={handleImageAdjustmentsChange}
+        regionMode={regionMode}
+        onRegionModeChange={setRegionMode}
+        signLanguage={signLanguage}
+        onSignLanguageChange={setSignLanguage}
         onProcess={processImage}
         onManualSubmit={handleManualSubmit}
         error={error}
@@ -354,8 +427,12 @@ const BusinessListingGenerator: React.FC = () => {
     return (
       <BusinessNameConfirmation
         extractedNames={extractedTextData.businessNames}
+        nameCandidates={extractedTextData.nameCandidates}
+        words={extractedTextData.words}
+        ocrImages={ocrImages}
         confidence={extractedTextData.confidence.businessName}
         onConfirm={handleBusinessNameConfirmation}
+        onFieldCorrection={handleFieldCorrection}
         onRetry={handleRetryFromConfirmation}
       />
     );
@@ -387,6 +464,7 @@ const BusinessListingGenerator: React.FC = () => {
       <BusinessResults
         businessData={businessData}
         onReset={reset}
+        onChangeLocation={locationOptions.length > 1 ? () => setCurrentStep('location-selection') : undefined}
       />
     );
   }
@@ -1,27 +1,75 @@
 // src/app/components/BusinessNameConfirmation.tsx
 import React, { useState } from 'react';
-import { AlertTriangle, CheckCircle, Edit3 } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Edit3, ScanText } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { CorrectableField, NameCandidate, OcrImagePreview, WordBox } from '@/lib/ui-types';
+import OcrOverlayViewer from './OcrOverlayViewer';
 
 interface BusinessNameConfirmationProps {
   extractedNames: string[];
+  nameCandidates?: NameCandidate[];
+  words?: WordBox[];
+  ocrImages?: OcrImagePreview[];
   confidence: 'High' | 'Medium' | 'Low';
   onConfirm: (businessName: string) => void;
+  onFieldCorrection?: (field: Exclude<CorrectableField, 'name'>, value: string) => void;
   onRetry: () => void;
 }
 
+const STRATEGY_LABELS: Record<NameCandidate['strategy'], string> = {
+  context: 'Contains business words',
+  positional: 'Near the top of the sign',
+  pattern: 'Looks like a name',
+  logo: 'Recognized logo'
+};
+
+// Turn the score breakdown into the handful of reasons worth showing
+const describeComponents = (components: Record<string, number>): string[] => {
+  const reasons: string[] = [];
+  if ((components.region ?? 0) > 0) reasons.push('In marked area');
+  if ((components.logo ?? 0) > 0) reasons.push('Matches logo');
+  if ((components.glyphHeight ?? 0) >= 6) reasons.push('Largest text');
+  else if ((components.glyphHeight ?? 0) >= 4) reasons.push('Large text');
+  if ((components.centrality ?? 0) >= 2) reasons.push('Centered');
+  if ((components.position ?? 0) >= 8) reasons.push('First lines');
+  if ((components.keyword ?? 0) > 0) reasons.push('Business keyword');
+  if ((components.format ?? 0) >= 3) reasons.push('All caps');
+  if ((components.completeness ?? 0) > 0) reasons.push('Typical name length');
+  if ((components.penalty ?? 0) < 0) reasons.push('Unusual length');
+  return reasons;
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
 const BusinessNameConfirmation: React.FC<BusinessNameConfirmationProps> = ({
   extractedNames,
+  nameCandidates = [],
+  words = [],
+  ocrImages = [],
   confidence,
   onConfirm,
+  onFieldCorrection,
   onRetry
 }) => {
   const [selectedName, setSelectedName] = useState<string>(extractedNames[0] || '');
   const [customName, setCustomName] = useState<string>('');
   const [useCustom, setUseCustom] = useState<boolean>(false);
+  const [corrections, setCorrections] = useState<Partial<Record<CorrectableField, string>>>({});
+
+  // Words clicked in the OCR overlay replace the name, or fix another field before the search runs
+  const handleOverlayApply = (field: CorrectableField, value: string) => {
+    if (field === 'name') {
+      setCustomName(value);
+      setUseCustom(true);
+      return;
+    }
+    onFieldCorrection?.(field, value);
+    setCorrections(previous => ({ ...previous, [field]: value }));
+  };
 
   const handleConfirm = () => {
     const finalName = useCustom ? customName.trim() : selectedName;
@@ -30,6 +78,9 @@ const BusinessNameConfirmation: React.FC<BusinessNameConfirmationProps> = ({
     }
   };
 
+  const findCandidate = (name: string): NameCandidate | undefined =>
+    nameCandidates.find(candidate => normalizeName(candidate.name) === normalizeName(name));
+
   const getConfidenceColor = (conf: string) => {
     switch (conf) {
       case 'High': return 'text-emerald-600 bg-emerald-50 border-emerald-200';
@@ -75,32 +126,72 @@ const BusinessNameConfirmation: React.FC<BusinessNameConfirmationProps> = ({
                 Detected Business Names
               </label>
               <div className="space-y-2">
-                {extractedNames.map((name, index) => (
-                  <div key={index} className="flex items-center space-x-3">
-                    <input
-                      type="radio"
-                      id={`name-${index}`}
-                      name="businessName"
-                      value={name}
-                      checked={selectedName === name && !useCustom}
-                      onChange={(e) => {
-                        setSelectedName(e.target.value);
-                        setUseCustom(false);
-                      }}
-                      className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
-                    />
-                    <label 
-                      htmlFor={`name-${index}`} 
-                      className="text-lg font-medium text-gray-800 cursor-pointer flex-1 p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                    >
-                      {name}
-                    </label>
-                  </div>
-                ))}
+                {extractedNames.map((name, index) => {
+                  const candidate = findCandidate(name);
+                  return (
+                    <div key={index} className="flex items-center space-x-3">
+                      <input
+                        type="radio"
+                        id={`name-${index}`}
+                        name="businessName"
+                        value={name}
+                        checked={selectedName === name && !useCustom}
+                        onChange={(e) => {
+                          setSelectedName(e.target.value);
+                          setUseCustom(false);
+                        }}
+                        className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      />
+                      <label 
+                        htmlFor={`name-${index}`} 
+                        className="text-lg font-medium text-gray-800 cursor-pointer flex-1 p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                      >
+                        <span className="block">{name}</span>
+                        {candidate?.transliteration && (
+                          <span className="block text-sm font-normal text-gray-500">Romanized: {candidate.transliteration}</span>
+                        )}
+                        {candidate && (
+                          <span className="block mt-2 space-y-1">
+                            <span className="block text-xs font-normal text-gray-500">
+                              Score {candidate.score.toFixed(1)} · {STRATEGY_LABELS[candidate.strategy]}{candidate.lineNumbers.length > 0 && ` · line ${candidate.lineNumbers.join(', ')}`}
+                              {candidate.imageIndex !== undefined && ` of photo ${candidate.imageIndex + 1}`}: &ldquo;{candidate.sourceLine}&rdquo;
+                            </span>
+                            <span className="flex flex-wrap gap-1">
+                              {describeComponents(candidate.components).map(reason => (
+                                <Badge key={reason} variant="outline" className="text-xs font-normal">{reason}</Badge>
+                              ))}
+                            </span>
+                            {candidate.similar && candidate.similar.length > 0 && (
+                              <span className="block text-xs font-normal text-gray-400">
+                                Also read as: {candidate.similar.join(', ')}
+                              </span>
+                            )}
+                          </span>
+                        )}
+                      </label>
+                    </div>
+                  );
+                })}
               </div>
             </div>
           )}
 
+          {words.length > 0 && ocrImages.length > 0 && (
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-gray-600 uppercase tracking-wide">
+                <ScanText className="w-4 h-4" />
+                Pick From the Photo
+              </label>
+              <OcrOverlayViewer images={ocrImages} words={words} onApply={handleOverlayApply} />
+              {Object.entries(corrections).map(([field, value]) => (
+                <p key={field} className="flex items-center gap-2 text-sm text-emerald-700">
+                  <CheckCircle className="w-4 h-4" />
+                  <span className="capitalize">{field}</span> set to &quot;{value}&quot;
+                </p>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-4">
             <div className="flex items-center space-x-3">
               <input
@@ -3,11 +3,11 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BusinessResultsProps, ValuationFactor } from '@/lib/ui-types';
-import { Download, Globe, MapPin, Phone, RotateCcw, Star } from 'lucide-react';
+import { AtSign, Download, Globe, MapPin, Phone, RotateCcw, Star } from 'lucide-react';
 import Image from "next/image";
 import React from 'react';
 
-const BusinessResults: React.FC<BusinessResultsProps> = ({ businessData, onReset }) => {
+const BusinessResults: React.FC<BusinessResultsProps> = ({ businessData, onReset, onChangeLocation }) => {
   const { valuation } = businessData;
 
   const handleExport = (): void => {
@@ -18,6 +18,7 @@ const BusinessResults: React.FC<BusinessResultsProps> = ({ businessData, onReset
       description: businessData.description,
       contact: businessData.phone,
       website: businessData.website,
+      social: businessData.socialProfiles?.map(profile => profile.url || `@${profile.handle}`),
       rating: businessData.rating ? `${businessData.rating}/5 (${businessData.reviews} reviews)` : null,
       askingPrice: valuation ? `$${valuation.estimatedValue.low.toLocaleString()} - $${valuation.estimatedValue.high.toLocaleString()}` : 'Contact for pricing'
     };
@@ -83,6 +84,15 @@ const BusinessResults: React.FC<BusinessResultsProps> = ({ businessData, onReset
                   </div>
                 )}
               </div>
+              {onChangeLocation && (
+                <button
+                  type="button"
+                  onClick={onChangeLocation}
+                  className="mt-3 text-sm text-blue-700 underline hover:text-blue-900 hover:cursor-pointer"
+                >
+                  Not this one? Choose another location
+                </button>
+              )}
             </div>
 
             {/* Two Column Layout */}
@@ -105,6 +115,11 @@ const BusinessResults: React.FC<BusinessResultsProps> = ({ businessData, onReset
                           <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-500" />
                           <span className="leading-relaxed text-sm">{businessData.address}</span>
                         </div>
+                        {businessData.locationWarning && (
+                          <p className="mt-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                            {businessData.locationWarning}
+                          </p>
+                        )}
                       </li>
                       
                       {businessData.phone !== 'Not Available' && (
@@ -133,6 +148,34 @@ const BusinessResults: React.FC<BusinessResultsProps> = ({ businessData, onReset
                           </div>
                         </li>
                       )}
+                      
+                      {businessData.socialProfiles && businessData.socialProfiles.length > 0 && (
+                        <li>
+                          <label className="text-xs font-semibold text-gray-600 uppercase tracking-wide block mb-2">Social</label>
+                          <div className="space-y-2">
+                            {businessData.socialProfiles.map(profile => (
+                              <div key={`${profile.platform}-${profile.handle}`} className="flex items-center space-x-3">
+                                <AtSign className="w-4 h-4 text-gray-500" />
+                                {profile.url ? (
+                                  <a
+                                    href={profile.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-600 hover:text-blue-800 transition-colors font-medium hover:underline text-sm"
+                                  >
+                                    @{profile.handle}
+                                  </a>
+                                ) : (
+                                  <span className="font-medium text-sm text-gray-700">@{profile.handle}</span>
+                                )}
+                                {profile.platform !== 'unknown' && (
+                                  <Badge variant="outline" className="text-xs capitalize">{profile.platform}</Badge>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </li>
+                      )}
                     </ul>
                   </div>
                 </div>
@@ -7,22 +7,110 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { AlertCircle, CheckCircle, Upload, Type, Image as ImageIcon } from 'lucide-react';
-import React, { ChangeEvent, DragEvent, useCallback, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Crop, Upload, Type, Image as ImageIcon, X } from 'lucide-react';
+import React, { ChangeEvent, DragEvent, useCallback, useEffect, useState } from 'react';
 import Image from "next/image";
+import { assessImageQuality, ImageQualityReport, QUALITY_SAMPLE_SIZE, rgbaToGrayscale } from '@/lib/image-quality';
+import { NO_ADJUSTMENTS } from '@/lib/image-regions';
+import { MAX_IMAGE_SIZE, MAX_IMAGES_PER_BUSINESS } from '@/lib/upload-limits';
+import { ImageAdjustments, OcrModePreference, RegionMode } from '@/lib/ui-types';
+import RegionSelector from './RegionSelector';
+
+const OCR_MODE_OPTIONS: { value: OcrModePreference; label: string; hint: string }[] = [
+  { value: 'auto', label: 'Auto', hint: 'Detect dense text automatically' },
+  { value: 'scene', label: 'Storefront / Sign', hint: 'Large, sparse text' },
+  { value: 'document', label: 'Card / Flyer / Menu', hint: 'Keeps blocks of text together' }
+];
+
+const REGION_MODE_OPTIONS: { value: RegionMode; label: string; hint: string }[] = [
+  { value: 'crop', label: 'Only marked areas', hint: 'Ignore everything else in the photo' },
+  { value: 'weight', label: 'Prefer marked areas', hint: 'Read the whole photo, favour names inside them' }
+];
+
+// Sent to OCR as language hints; '' leaves detection to the provider
+const SIGN_LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'Detect' },
+  { value: 'zh', label: 'Chinese' },
+  { value: 'ko', label: 'Korean' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'ar', label: 'Arabic' },
+  { value: 'ru', label: 'Russian' },
+  { value: 'uk', label: 'Ukrainian' },
+  { value: 'es', label: 'Spanish' }
+];
+
+const describeAdjustments = (adjustments: ImageAdjustments | undefined): string | null => {
+  if (!adjustments) return null;
+  const parts: string[] = [];
+  if (adjustments.regions.length > 0) {
+    parts.push(`${adjustments.regions.length} area${adjustments.regions.length > 1 ? 's' : ''} marked`);
+  }
+  if (adjustments.rotation !== 0) parts.push(`rotated ${adjustments.rotation}°`);
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+// Run the same quality checks as the server on a downscaled canvas copy of the photo
+const assessFileQuality = async (file: File): Promise<ImageQualityReport | null> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new window.Image();
+      img.onload = () => resolve(img);
+      img.onerror = reject;
+      img.src = url;
+    });
+
+    const scale = Math.min(1, QUALITY_SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(image, 0, 0, width, height);
+    const { data } = context.getImageData(0, 0, width, height);
+    return assessImageQuality(
+      { data: rgbaToGrayscale(data, width, height), width, height },
+      { width: image.naturalWidth, height: image.naturalHeight }
+    );
+  } catch {
+    // Most browsers cannot decode HEIC; the server checks those after converting them
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
 
 // Updated interface to include manual submit
 interface FileUploadProps {
-  selectedFile: File | null;
-  onFileSelect: (file: File | null) => void;
+  selectedFiles: File[];
+  onFilesSelect: (files: File[]) => void;
+  ocrMode: OcrModePreference;
+  onOcrModeChange: (mode: OcrModePreference) => void;
+  imageAdjustments: Map<File, ImageAdjustments>;
+  onImageAdjustmentsChange: (file: File, adjustments: ImageAdjustments) => void;
+  regionMode: RegionMode;
+  onRegionModeChange: (mode: RegionMode) => void;
+  signLanguage: string;
+  onSignLanguageChange: (language: string) => void;
   onProcess: () => void;
   onManualSubmit?: (businessName: string) => void;
   error?: string | null;
 }
 
 const FileUpload: React.FC<FileUploadProps> = ({
-  selectedFile,
-  onFileSelect,
+  selectedFiles,
+  onFilesSelect,
+  ocrMode,
+  onOcrModeChange,
+  imageAdjustments,
+  onImageAdjustmentsChange,
+  regionMode,
+  onRegionModeChange,
+  signLanguage,
+  onSignLanguageChange,
   onProcess,
   onManualSubmit,
   error
@@ -30,6 +118,26 @@ const FileUpload: React.FC<FileUploadProps> = ({
   const [dragActive, setDragActive] = useState<boolean>(false);
   const [manualBusinessName, setManualBusinessName] = useState<string>('');
   const [inputMode, setInputMode] = useState<'image' | 'manual'>('image');
+  const [qualityReports, setQualityReports] = useState<Map<File, ImageQualityReport | null>>(new Map());
+  const [editingFile, setEditingFile] = useState<File | null>(null);
+
+  // Check each newly added photo so retake advice shows up before anything is uploaded
+  useEffect(() => {
+    const pending = selectedFiles.filter(file => !qualityReports.has(file));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(pending.map(async file => [file, await assessFileQuality(file)] as const)).then(results => {
+      if (cancelled) return;
+      setQualityReports(previous => new Map([...previous, ...results]));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFiles, qualityReports]);
+
+  const hasUnreadablePhotos = selectedFiles.some(file => qualityReports.get(file)?.acceptable === false);
+  const hasMarkedRegions = selectedFiles.some(file => (imageAdjustments.get(file)?.regions.length ?? 0) > 0);
 
   const handleDrag = useCallback((e: DragEvent<HTMLDivElement>): void => {
     e.preventDefault();
@@ -41,27 +149,32 @@ const FileUpload: React.FC<FileUploadProps> = ({
     }
   }, []);
 
+  const addFiles = useCallback((fileList: FileList | null): void => {
+    // HEIC photos often arrive without a MIME type, so fall back to the extension
+    const images = Array.from(fileList || []).filter(file =>
+      file.type.startsWith("image/") || /\.(heic|heif)$/i.test(file.name)
+    );
+    if (images.length > 0) {
+      onFilesSelect([...selectedFiles, ...images].slice(0, MAX_IMAGES_PER_BUSINESS));
+      setInputMode('image');
+    }
+  }, [onFilesSelect, selectedFiles]);
+
   const handleDrop = useCallback((e: DragEvent<HTMLDivElement>): void => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-
-    const files = e.dataTransfer.files;
-    if (files && files[0]) {
-      const file = files[0];
-      if (file.type.startsWith("image/")) {
-        onFileSelect(file);
-        setInputMode('image');
-      }
-    }
-  }, [onFileSelect]);
+    addFiles(e.dataTransfer.files);
+  }, [addFiles]);
 
   const handleFileInputChange = (e: ChangeEvent<HTMLInputElement>): void => {
-    const file = e.target.files?.[0];
-    if (file && file.type.startsWith("image/")) {
-      onFileSelect(file);
-      setInputMode('image');
-    }
+    addFiles(e.target.files);
+    // Allow selecting the same file again after removing it
+    e.target.value = '';
+  };
+
+  const removeFile = (index: number): void => {
+    onFilesSelect(selectedFiles.filter((_, i) => i !== index));
   };
 
   const handleManualSubmit = (): void => {
@@ -77,7 +190,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
 
   const switchToManualMode = (): void => {
     setInputMode('manual');
-    onFileSelect(null);
+    onFilesSelect([]);
   };
 
   return (
@@ -141,7 +254,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
                 className={`border-2 border-dashed rounded-2xl py-8 text-center transition-all duration-300 cursor-pointer transform ${
                   dragActive
                     ? "border-[#ffd08b] bg-[#ffd08b]/10 shadow-lg"
-                    : selectedFile
+                    : selectedFiles.length > 0
                     ? "border-[#ffd08b] bg-[#ffd08b]/10 shadow-lg"
                     : "border-gray-300 hover:border-[#ffd08b] hover:bg-[#ffd08b]/5"
                 }`}
@@ -152,44 +265,182 @@ const FileUpload: React.FC<FileUploadProps> = ({
               >
                 <input
                   type="file"
-                  accept="image/*"
+                  accept="image/*,.heic,.heif"
+                  multiple
                   onChange={handleFileInputChange}
                   className="hidden"
                   id="file-upload"
                 />
                 
-                {selectedFile ? (
+                {selectedFiles.length > 0 ? (
                   <div className="space-y-4">
                     <CheckCircle className="w-16 h-16 text-[#ffd08b] mx-auto" />
                     <div className="space-y-2">
-                      <p className="text-xl font-semibold text-gray-800">Image Ready!</p>
-                      <p className="text-lg text-gray-700">{selectedFile.name}</p>
-                      <p className="text-sm text-gray-500">
-                        {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                      <p className="text-xl font-semibold text-gray-800">
+                        {selectedFiles.length === 1 ? 'Image Ready!' : `${selectedFiles.length} Images Ready!`}
                       </p>
+                      <ul className="space-y-1 max-w-sm mx-auto">
+                        {selectedFiles.map((file, index) => {
+                          const quality = qualityReports.get(file);
+                          const adjustmentSummary = describeAdjustments(imageAdjustments.get(file));
+                          return (
+                            <li
+                              key={`${file.name}-${index}`}
+                              className="text-sm text-gray-700 bg-white/70 rounded-md px-3 py-1.5"
+                            >
+                              <div className="flex items-center justify-between gap-3">
+                                <span className="truncate">{file.name}</span>
+                                <span className="flex items-center gap-2 flex-shrink-0 text-gray-500">
+                                  {(file.size / 1024 / 1024).toFixed(2)} MB
+                                  <button
+                                    type="button"
+                                    onClick={() => setEditingFile(editingFile === file ? null : file)}
+                                    className={editingFile === file ? 'text-gray-900' : 'text-gray-400 hover:text-gray-700'}
+                                    aria-label={`Crop or rotate ${file.name}`}
+                                  >
+                                    <Crop className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => removeFile(index)}
+                                    className="text-gray-400 hover:text-gray-700"
+                                    aria-label={`Remove ${file.name}`}
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </button>
+                                </span>
+                              </div>
+                              {adjustmentSummary && (
+                                <p className="text-left text-xs text-gray-500 mt-1">{adjustmentSummary}</p>
+                              )}
+                              {quality?.warnings.map(warning => (
+                                <p
+                                  key={warning.code}
+                                  className={`flex items-start gap-1.5 text-left text-xs mt-1 ${
+                                    warning.severity === 'error' ? 'text-red-600' : 'text-amber-700'
+                                  }`}
+                                >
+                                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                                  <span>{warning.message} {warning.guidance}</span>
+                                </p>
+                              ))}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                    <div className="flex justify-center gap-2 mt-4">
+                      {selectedFiles.length < MAX_IMAGES_PER_BUSINESS && (
+                        <Button
+                          asChild
+                          variant="outline"
+                          size="sm"
+                          className="border-2 border-[#ffd08b] text-[#ffd08b] hover:bg-[#ffd08b] hover:text-black"
+                        >
+                          <label htmlFor="file-upload" className="cursor-pointer">Add More Photos</label>
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => onFilesSelect([])}
+                        variant="outline"
+                        size="sm"
+                        className="border-2 border-[#ffd08b] text-[#ffd08b] hover:bg-[#ffd08b] hover:text-black"
+                      >
+                        Choose Different Images
+                      </Button>
                     </div>
-                    <Button
-                      onClick={() => onFileSelect(null)}
-                      variant="outline"
-                      size="sm"
-                      className="mt-4 border-2 border-[#ffd08b] text-[#ffd08b] hover:bg-[#ffd08b] hover:text-black"
-                    >
-                      Choose Different Image
-                    </Button>
                   </div>
                 ) : (
                   <label htmlFor="file-upload" className="cursor-pointer block">
                     <Upload className="w-10 h-10 text-gray-400 mx-auto mb-6" />
                     <p className="text-xl font-semibold text-gray-700 mb-3">
-                      Drop your business image here
+                      Drop your business images here
                     </p>
                     <p className="text-gray-500">
-                      or click to browse (PNG, JPG, WEBP up to 5MB)
+                      or click to browse (PNG, JPG, WEBP, HEIC up to {MAX_IMAGE_SIZE / 1024 / 1024}MB each)
+                    </p>
+                    <p className="text-sm text-gray-400 mt-2">
+                      Add the storefront, posted hours, menu or business card of the same business
                     </p>
                   </label>
                 )}
               </div>
 
+              {editingFile && selectedFiles.includes(editingFile) && (
+                <RegionSelector
+                  file={editingFile}
+                  adjustments={imageAdjustments.get(editingFile) || NO_ADJUSTMENTS}
+                  onChange={adjustments => onImageAdjustmentsChange(editingFile, adjustments)}
+                  onClose={() => setEditingFile(null)}
+                />
+              )}
+
+              {hasMarkedRegions && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-gray-700">How should the marked areas be used?</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {REGION_MODE_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => onRegionModeChange(option.value)}
+                        className={`rounded-lg border-2 px-3 py-2 text-left transition-all ${
+                          regionMode === option.value
+                            ? 'border-[#ffd08b] bg-[#ffd08b]/10'
+                            : 'border-gray-200 hover:border-[#ffd08b]'
+                        }`}
+                      >
+                        <span className="block text-sm font-medium text-gray-800">{option.label}</span>
+                        <span className="block text-xs text-gray-500">{option.hint}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* OCR Mode Selection */}
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-gray-700">What kind of photo is this?</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {OCR_MODE_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => onOcrModeChange(option.value)}
+                      className={`rounded-lg border-2 px-3 py-2 text-left transition-all ${
+                        ocrMode === option.value
+                          ? 'border-[#ffd08b] bg-[#ffd08b]/10'
+                          : 'border-gray-200 hover:border-[#ffd08b]'
+                      }`}
+                    >
+                      <span className="block text-sm font-medium text-gray-800">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.hint}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Sign Language Selection */}
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-gray-700">What language is the sign in?</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {SIGN_LANGUAGE_OPTIONS.map(option => (
+                    <button
+                      key={option.value || 'detect'}
+                      type="button"
+                      onClick={() => onSignLanguageChange(option.value)}
+                      className={`rounded-lg border-2 px-3 py-1.5 text-sm text-gray-800 transition-all ${
+                        signLanguage === option.value
+                          ? 'border-[#ffd08b] bg-[#ffd08b]/10'
+                          : 'border-gray-200 hover:border-[#ffd08b]'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Sample Image Example */}
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <div className="flex items-center space-x-4">
@@ -214,9 +465,18 @@ const FileUpload: React.FC<FileUploadProps> = ({
                 </div>
               </div>
 
+              {hasUnreadablePhotos && (
+                <Alert className="border-amber-200 bg-amber-50">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-800">
+                    Some photos are unlikely to be readable and will be skipped. Retake them using the tips above for better results.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <Button
                 onClick={onProcess}
-                disabled={!selectedFile}
+                disabled={selectedFiles.length === 0}
                 className="w-full py-6 text-lg font-semibold bg-black hover:bg-gray-800 disabled:bg-gray-400 disabled:text-gray-600"
                 size="lg"
               >
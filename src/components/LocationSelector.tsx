@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AlertCircle, MapPin, Star } from 'lucide-react';
 import React from 'react';
+import { formatDistance } from '@/lib/geo';
 
 interface LocationOption {
   place_id: string;
@@ -14,6 +15,7 @@ interface LocationOption {
   rating?: number;
   user_ratings_total?: number;
   business_status?: string;
+  price_level?: number;
   types?: string[];
   geometry?: {
     location: {
@@ -21,6 +23,9 @@ interface LocationOption {
       lng: number;
     };
   };
+  distance_meters?: number; // From where the photo was taken
+  match_score?: number;     // 0-100 against the name, phone, address and position in the photo
+  match_reasons?: string[];
 }
 
 interface LocationSelectorProps {
@@ -49,6 +54,14 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
     return readableTypes.join(', ') || 'Business';
   };
 
+  const getMatchColor = (score: number): string => {
+    if (score >= 75) return 'bg-green-100 text-green-800 border-green-200';
+    if (score >= 50) return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    return 'bg-gray-100 text-gray-800 border-gray-200';
+  };
+
+  const hasMatchScores = options.some(option => option.match_score !== undefined);
+
   const getStatusColor = (status?: string): string => {
     switch (status) {
       case 'OPERATIONAL': return 'bg-green-100 text-green-800 border-green-200';
@@ -79,7 +92,7 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
           </div>
           <p className="text-gray-600">
             We found <strong>{options.length}</strong> businesses named <strong className='italic'>{businessName}</strong>. 
-            Please select the correct location:
+            Please select the correct location{hasMatchScores ? ' (best matches for your photo first)' : ''}:
           </p>
         </CardHeader>
         
@@ -102,6 +115,11 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
                         <h3 className="font-semibold text-lg text-gray-900 truncate">
                           {option.name}
                         </h3>
+                        {option.match_score !== undefined && (
+                          <Badge className={getMatchColor(option.match_score)} variant="outline">
+                            {option.match_score}% match
+                          </Badge>
+                        )}
                       </div>
                       
                       {/* Address */}
@@ -125,6 +143,12 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
                           {formatBusinessTypes(option.types)}
                         </Badge>
                         
+                        {option.distance_meters !== undefined && (
+                          <Badge variant="outline">
+                            {formatDistance(option.distance_meters)} from photo
+                          </Badge>
+                        )}
+                        
                         {option.business_status && (
                           <Badge 
                             className={getStatusColor(option.business_status)}
@@ -134,6 +158,13 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
                           </Badge>
                         )}
                       </div>
+                      
+                      {/* Why it matches */}
+                      {option.match_reasons && option.match_reasons.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {option.match_reasons.join(' · ')}
+                        </p>
+                      )}
                     </div>
                     
                     {/* Select Button */}
@@ -0,0 +1,171 @@
+// src/components/OcrOverlayViewer.tsx
+'use client'
+
+import { Button } from "@/components/ui/button";
+import Image from "next/image";
+import React, { useState } from 'react';
+import { CorrectableField, OcrImagePreview, WordBox, WordField } from '@/lib/ui-types';
+
+interface OcrOverlayViewerProps {
+  images: OcrImagePreview[]; // In the order of WordBox.imageIndex
+  words: WordBox[];
+  onApply: (field: CorrectableField, value: string) => void;
+}
+
+const FIELD_STYLES: Record<WordField, { label: string; box: string; swatch: string }> = {
+  name: { label: 'Name', box: 'border-amber-500 bg-amber-400/25', swatch: 'bg-amber-400' },
+  phone: { label: 'Phone', box: 'border-emerald-500 bg-emerald-400/25', swatch: 'bg-emerald-400' },
+  address: { label: 'Address', box: 'border-blue-500 bg-blue-400/25', swatch: 'bg-blue-400' },
+  website: { label: 'Website', box: 'border-purple-500 bg-purple-400/25', swatch: 'bg-purple-400' },
+  email: { label: 'Email', box: 'border-pink-500 bg-pink-400/25', swatch: 'bg-pink-400' },
+  social: { label: 'Social', box: 'border-sky-500 bg-sky-400/25', swatch: 'bg-sky-400' },
+  other: { label: 'Other text', box: 'border-gray-400/70 bg-transparent', swatch: 'bg-gray-300' }
+};
+
+const TARGET_LABELS: Record<CorrectableField, string> = {
+  name: 'Business name',
+  phone: 'Phone',
+  address: 'Address',
+  website: 'Website'
+};
+
+// Websites are read as one word per piece ("joes" "pizza.com" on a wrapped line), so join them without spaces
+const joinWords = (field: CorrectableField, words: string[]) =>
+  field === 'website' ? words.join('') : words.join(' ');
+
+const OcrOverlayViewer: React.FC<OcrOverlayViewerProps> = ({ images, words, onApply }) => {
+  const [imageIndex, setImageIndex] = useState<number>(0);
+  const [target, setTarget] = useState<CorrectableField>('name');
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const image = images[imageIndex];
+  // A single image is not tagged with an index when the results are not merged
+  const imageWords = words
+    .map((word, index) => ({ word, index }))
+    .filter(({ word }) => (word.imageIndex ?? 0) === imageIndex);
+  const value = joinWords(target, selected.map(index => words[index].text));
+
+  const toggleWord = (index: number): void => {
+    setSelected(previous => previous.includes(index)
+      ? previous.filter(i => i !== index)
+      : [...previous, index]);
+  };
+
+  const showImage = (index: number): void => {
+    setImageIndex(index);
+    setSelected([]);
+  };
+
+  const apply = (): void => {
+    if (!value) return;
+    onApply(target, value);
+    setSelected([]);
+  };
+
+  const usedFields = (Object.keys(FIELD_STYLES) as WordField[])
+    .filter(field => imageWords.some(({ word }) => word.field === field));
+
+  return (
+    <div className="space-y-3">
+      {images.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((item, index) => (
+            <button
+              key={`${item.filename}-${index}`}
+              type="button"
+              onClick={() => showImage(index)}
+              className={`rounded-md border px-2 py-1 text-xs ${
+                index === imageIndex ? 'border-gray-900 bg-gray-900 text-white' : 'border-gray-300 text-gray-600 hover:border-gray-500'
+              }`}
+            >
+              {item.filename}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {image?.preview ? (
+        <div className="relative w-full overflow-hidden rounded-lg border border-gray-200">
+          <Image
+            src={image.preview}
+            alt={`Text read from ${image.filename}`}
+            width={image.width}
+            height={image.height}
+            unoptimized
+            className="block w-full h-auto"
+          />
+          {imageWords.map(({ word, index }) => {
+            const order = selected.indexOf(index);
+            return (
+              <button
+                key={index}
+                type="button"
+                onClick={() => toggleWord(index)}
+                title={`${word.text} (${FIELD_STYLES[word.field].label})`}
+                className={`absolute border-2 rounded-sm transition-colors ${
+                  order >= 0 ? 'border-black bg-black/30' : `${FIELD_STYLES[word.field].box} hover:bg-black/10`
+                }`}
+                style={{
+                  left: `${(word.bounds.x / image.width) * 100}%`,
+                  top: `${(word.bounds.y / image.height) * 100}%`,
+                  width: `${(word.bounds.width / image.width) * 100}%`,
+                  height: `${(word.bounds.height / image.height) * 100}%`
+                }}
+              >
+                {order >= 0 && (
+                  <span className="absolute -top-4 left-0 rounded bg-black px-1 text-[10px] font-semibold text-white">
+                    {order + 1}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No preview is available for this image.</p>
+      )}
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        {usedFields.map(field => (
+          <span key={field} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${FIELD_STYLES[field].swatch}`} />
+            {FIELD_STYLES[field].label}
+          </span>
+        ))}
+      </div>
+
+      <div className="space-y-2 rounded-lg bg-gray-50 p-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <span>Click words to build the</span>
+          {(Object.keys(TARGET_LABELS) as CorrectableField[]).map(field => (
+            <button
+              key={field}
+              type="button"
+              onClick={() => setTarget(field)}
+              className={`rounded-md border px-2 py-0.5 text-xs ${
+                target === field ? 'border-gray-900 bg-gray-900 text-white' : 'border-gray-300 hover:border-gray-500'
+              }`}
+            >
+              {TARGET_LABELS[field]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`flex-1 truncate rounded-md border bg-white px-3 py-1.5 text-sm ${value ? 'text-gray-900' : 'text-gray-400'}`}>
+            {value || 'No words selected'}
+          </span>
+          {selected.length > 0 && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setSelected([])}>
+              Clear
+            </Button>
+          )}
+          <Button type="button" size="sm" onClick={apply} disabled={!value} className="bg-black hover:bg-gray-800">
+            Use as {TARGET_LABELS[target].toLowerCase()}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OcrOverlayViewer;
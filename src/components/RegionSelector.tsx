@@ -0,0 +1,199 @@
+// src/components/RegionSelector.tsx
+'use client'
+
+import { Button } from "@/components/ui/button";
+import { RotateCcw, RotateCw, X } from 'lucide-react';
+import React, { PointerEvent, useEffect, useRef, useState } from 'react';
+import { MAX_REGIONS_PER_IMAGE, MIN_REGION_SIZE, rotateRegionClockwise } from '@/lib/image-regions';
+import { ImageAdjustments, ImageRegion } from '@/lib/ui-types';
+
+// The preview only needs to be sharp enough to aim at a sign
+const PREVIEW_MAX_DIMENSION = 1024;
+
+interface RegionSelectorProps {
+  file: File;
+  adjustments: ImageAdjustments;
+  onChange: (adjustments: ImageAdjustments) => void;
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const toRegion = (start: Point, end: Point): ImageRegion => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y)
+});
+
+const RegionSelector: React.FC<RegionSelectorProps> = ({ file, adjustments, onChange, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [previewFailed, setPreviewFailed] = useState<boolean>(false);
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+
+  // Decode the photo once; the browser applies its EXIF orientation for us
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    const img = new window.Image();
+    img.onload = () => setImage(img);
+    img.onerror = () => setPreviewFailed(true);
+    img.src = url;
+    setImage(null);
+    setPreviewFailed(false);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Redraw the preview with the user's rotation applied
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+
+    const scale = Math.min(1, PREVIEW_MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    const sideways = adjustments.rotation === 90 || adjustments.rotation === 270;
+    canvas.width = sideways ? height : width;
+    canvas.height = sideways ? width : height;
+
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate((adjustments.rotation * Math.PI) / 180);
+    context.drawImage(image, -width / 2, -height / 2, width, height);
+  }, [image, adjustments.rotation]);
+
+  const rotate = (clockwiseTurns: number): void => {
+    let regions = adjustments.regions;
+    for (let i = 0; i < clockwiseTurns; i++) {
+      regions = regions.map(rotateRegionClockwise);
+    }
+    onChange({
+      rotation: ((adjustments.rotation + clockwiseTurns * 90) % 360) as ImageAdjustments['rotation'],
+      regions
+    });
+  };
+
+  const toPoint = (e: PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height)
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>): void => {
+    if (adjustments.regions.length >= MAX_REGIONS_PER_IMAGE) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPoint(e);
+    setDraft({ start: point, end: point });
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>): void => {
+    if (draft) setDraft({ ...draft, end: toPoint(e) });
+  };
+
+  const handlePointerUp = (): void => {
+    if (!draft) return;
+    const region = toRegion(draft.start, draft.end);
+    // Ignore taps and slips that would crop to a sliver
+    if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+      onChange({ ...adjustments, regions: [...adjustments.regions, region] });
+    }
+    setDraft(null);
+  };
+
+  const removeRegion = (index: number): void => {
+    onChange({ ...adjustments, regions: adjustments.regions.filter((_, i) => i !== index) });
+  };
+
+  const regionStyle = (region: ImageRegion): React.CSSProperties => ({
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`
+  });
+
+  return (
+    <div className="space-y-3 rounded-lg border-2 border-[#ffd08b] bg-white p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-gray-800 truncate">{file.name}</p>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Button type="button" variant="ghost" size="icon" onClick={() => rotate(3)} aria-label="Rotate left">
+            <RotateCcw />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => rotate(1)} aria-label="Rotate right">
+            <RotateCw />
+          </Button>
+        </div>
+      </div>
+
+      {previewFailed ? (
+        <p className="text-sm text-gray-500 py-6 text-center">
+          This browser cannot preview this photo (HEIC photos usually need Safari), so regions cannot be drawn on it.
+        </p>
+      ) : (
+        <div className="flex justify-center bg-gray-100 rounded-md">
+          <div
+            className="relative inline-block cursor-crosshair touch-none select-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDraft(null)}
+          >
+            <canvas ref={canvasRef} className="block max-w-full max-h-96" />
+            {adjustments.regions.map((region, index) => (
+              <div
+                key={index}
+                className="absolute border-2 border-[#ffd08b] bg-[#ffd08b]/20"
+                style={regionStyle(region)}
+              >
+                <span className="absolute -top-0.5 left-0 bg-[#ffd08b] text-xs font-semibold text-black px-1">
+                  {index + 1}
+                </span>
+                <button
+                  type="button"
+                  onPointerDown={e => e.stopPropagation()}
+                  onClick={() => removeRegion(index)}
+                  className="absolute -top-0.5 right-0 bg-[#ffd08b] text-black"
+                  aria-label={`Remove region ${index + 1}`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            {draft && (
+              <div
+                className="absolute border-2 border-dashed border-black/70 bg-white/20"
+                style={regionStyle(toRegion(draft.start, draft.end))}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          Drag over the business&apos;s own sign to ignore neighbouring shops (up to {MAX_REGIONS_PER_IMAGE} areas).
+        </p>
+        <div className="flex gap-2 flex-shrink-0">
+          {adjustments.regions.length > 0 && (
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...adjustments, regions: [] })}>
+              Clear
+            </Button>
+          )}
+          <Button type="button" size="sm" onClick={onClose} className="bg-black hover:bg-gray-800">
+            Done
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegionSelector;
@@ -0,0 +1,202 @@
+// src/lib/address.ts
+import { PostalAddress } from './types';
+
+const DIRECTION = '(?:N|S|E|W|NE|NW|SE|SW|North|South|East|West)\\.?';
+const STREET_SUFFIX = '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Parkway|Pkwy|Highway|Hwy|Circle|Cir|Terrace|Ter|Square|Sq|Trail|Trl|Crescent|Cres|Close|Row|Plaza|Broadway|Pike|Alley|Loop)\\.?';
+const UNIT = '(?:Suite|Ste|Unit|Apt|Apartment|Fl|Floor|Bldg|Building|Rm|Room|#)\\.?\\s*#?\\s*[A-Za-z0-9-]+';
+
+const STREET_REGEX = new RegExp(
+  `\\b(\\d{1,6}[A-Za-z]?(?:-\\d{1,5})?\\s+(?:${DIRECTION}\\s+)?(?:[A-Za-z0-9.'-]+\\s+){0,4}?${STREET_SUFFIX}(?:\\s+${DIRECTION})?)(?![A-Za-z])(?:\\s*,?\\s*(${UNIT}))?`,
+  'i'
+);
+// "Calle Mayor 12", "Av. Paseo de la Reforma 222", "12 rue de la Paix"
+const CONTINENTAL_STREET_REGEX = /\b((?:Calle|Avenida|Av\.|Paseo|Calz\.|Calzada|Carrer|Rua|Via|Viale|Corso)\s+[^,\d]+?\s+\d{1,5}[A-Za-z]?|\d{1,5}[A-Za-z]?,?\s+(?:rue|avenue|boulevard|bd|place|chemin|allée|impasse|quai)\s+[^,]+)/i;
+const UNIT_REGEX = new RegExp(`^${UNIT}$`, 'i');
+const PO_BOX_REGEX = /\b(?:P\.?\s*O\.?\s*Box|Post\s+Office\s+Box)\s*#?\s*(\d+)/i;
+
+const US_STATES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME',
+  'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI',
+  'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY', 'PR'
+];
+const CA_PROVINCES = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+const US_LOCALITY_REGEX = new RegExp(`^(?:(.+?),?\\s+)?(${US_STATES.join('|')})\\.?\\s+(\\d{5}(?:-\\d{4})?)$`, 'i');
+const CA_LOCALITY_REGEX = new RegExp(`^(?:(.+?),?\\s+)?(${CA_PROVINCES.join('|')})\\s+([A-Z]\\d[A-Z]\\s?\\d[A-Z]\\d)$`, 'i');
+const UK_LOCALITY_REGEX = /^(?:(.+?),?\s+)?([A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2})$/i;
+const STATE_ONLY_REGEX = new RegExp(`^(?:(.+?),?\\s+)?(${US_STATES.join('|')})$`);
+// "Springfield, IL": on a line of its own, only a comma tells a state from "JOE'S PIZZA CO" or "COME ON IN"
+const STATE_AFTER_COMMA_REGEX = new RegExp(`,\\s*(?:${US_STATES.join('|')})$`);
+// "75002 Paris", "06600 Ciudad de México"; too loose to trust outside an address
+const POSTCODE_FIRST_REGEX = /^(\d{4,5})\s+([^\d,]+)$/;
+
+const COUNTRY_NAMES: Record<string, string> = {
+  'usa': 'US', 'us': 'US', 'united states': 'US', 'united states of america': 'US',
+  'canada': 'CA', 'uk': 'GB', 'united kingdom': 'GB', 'england': 'GB', 'scotland': 'GB', 'wales': 'GB',
+  'mexico': 'MX', 'méxico': 'MX', 'australia': 'AU', 'ireland': 'IE', 'france': 'FR', 'spain': 'ES', 'españa': 'ES'
+};
+
+interface Locality {
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+function matchStreet(segment: string): { street: string; unit?: string } | null {
+  const match = segment.match(STREET_REGEX);
+  if (match) return { street: match[1].trim(), unit: match[2]?.trim() };
+
+  const continental = segment.match(CONTINENTAL_STREET_REGEX);
+  if (continental) return { street: continental[1].trim() };
+
+  return null;
+}
+
+function matchLocality(segment: string, inAddress = false): Locality | null {
+  const text = segment.trim();
+
+  let match = text.match(US_LOCALITY_REGEX);
+  if (match) return { city: match[1]?.trim(), region: match[2].toUpperCase(), postalCode: match[3], country: 'US' };
+
+  match = text.match(CA_LOCALITY_REGEX);
+  if (match) return { city: match[1]?.trim(), region: match[2].toUpperCase(), postalCode: match[3].toUpperCase(), country: 'CA' };
+
+  match = text.match(UK_LOCALITY_REGEX);
+  if (match) return { city: match[1]?.trim(), postalCode: match[2].toUpperCase(), country: 'GB' };
+
+  // "Springfield, IL" without a ZIP
+  match = text.match(STATE_ONLY_REGEX);
+  if (match) return { city: match[1]?.trim(), region: match[2], country: 'US' };
+
+  match = inAddress ? text.match(POSTCODE_FIRST_REGEX) : null;
+  if (match) return { city: match[2].trim(), postalCode: match[1] };
+
+  return null;
+}
+
+function matchCountry(segment: string): string | null {
+  return COUNTRY_NAMES[segment.trim().toLowerCase().replace(/\.$/, '')] || null;
+}
+
+/**
+ * Classify address segments (comma- or line-separated) into components.
+ * In strict mode, used on free OCR text, an unrecognised segment is only
+ * taken as the city when a region/postcode segment without a city follows it.
+ */
+function parseSegments(segments: string[], strict: boolean): { address: PostalAddress; used: number } {
+  const address: PostalAddress = { formatted: '' };
+  let pendingCity: string | undefined;
+  let usedBeforePending = 0;
+  let used = 0;
+
+  for (const rawSegment of segments) {
+    const segment = rawSegment.trim().replace(/\s+/g, ' ');
+    if (!segment) {
+      used++;
+      continue;
+    }
+
+    const poBox = segment.match(PO_BOX_REGEX);
+    const street = matchStreet(segment);
+    const locality = matchLocality(segment, !!(address.street || address.poBox));
+    const country = matchCountry(segment);
+    const hasLocality = !!(address.city || address.region || address.postalCode);
+
+    if (poBox && !address.poBox && !hasLocality) {
+      address.poBox = poBox[1];
+    } else if (street && !address.street && !locality && !hasLocality) {
+      address.street = street.street;
+      if (street.unit) address.unit = street.unit;
+    } else if (UNIT_REGEX.test(segment) && !address.unit) {
+      address.unit = segment;
+    } else if (locality && !address.postalCode && !address.region) {
+      address.city = locality.city || pendingCity || address.city;
+      address.region = locality.region;
+      address.postalCode = locality.postalCode;
+      address.country = address.country || locality.country;
+      pendingCity = undefined;
+    } else if (country) {
+      address.country = country;
+    } else if (!address.city && !pendingCity && (!strict || address.street || address.poBox)) {
+      if (strict) {
+        pendingCity = segment;
+        usedBeforePending = used;
+      } else {
+        address.city = segment;
+      }
+    } else {
+      break;
+    }
+    used++;
+  }
+
+  // An unconfirmed city candidate in OCR text is probably just the next line of the sign
+  if (pendingCity) used = usedBeforePending;
+
+  address.formatted = segments.slice(0, used).map(s => s.trim()).filter(Boolean).join(', ');
+  return { address, used };
+}
+
+/**
+ * Parse a single address string such as Places' formatted_address
+ * ("123 N Main St, Suite 4, Springfield, IL 62701, USA").
+ */
+export function parseAddress(address?: string | null): PostalAddress | null {
+  if (!address || !address.trim()) return null;
+
+  const segments = address.split(/[,\n]/);
+  const { address: parsed } = parseSegments(segments, false);
+  parsed.formatted = address.trim();
+
+  return parsed.street || parsed.poBox || parsed.city || parsed.postalCode ? parsed : null;
+}
+
+/**
+ * Find postal addresses in OCR text. A street or PO box line starts an
+ * address; unit, city/region/postcode and country are picked up from the
+ * rest of that line and the following lines.
+ */
+export function extractAddresses(text: string): PostalAddress[] {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const addresses: PostalAddress[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const street = line.match(STREET_REGEX) || line.match(CONTINENTAL_STREET_REGEX);
+    const poBox = line.match(PO_BOX_REGEX);
+    const start = street?.index ?? poBox?.index;
+
+    if (start === undefined) {
+      // A lone "City, ST 12345" line still tells us where the business is; without a ZIP it needs the comma
+      const locality = matchLocality(line);
+      if (locality && (locality.postalCode || STATE_AFTER_COMMA_REGEX.test(line)) && !addresses.some(a => a.postalCode === locality.postalCode)) {
+        addresses.push({ formatted: line, ...locality });
+      }
+      continue;
+    }
+
+    const segments = [...line.slice(start).split(','), ...lines.slice(i + 1, i + 3)];
+    const { address, used } = parseSegments(segments, true);
+    if (!address.street && !address.poBox) continue;
+
+    addresses.push(address);
+    // Skip the following lines that were consumed as locality/country
+    const consumedFromLine = line.slice(start).split(',').length;
+    i += Math.max(0, used - consumedFromLine);
+  }
+
+  console.log(`   Address extraction: ${addresses.length} found`);
+  return addresses;
+}
+
+/**
+ * Human-readable "City, Region" for the listing's location.
+ */
+export function formatLocation(address?: PostalAddress | null): string | null {
+  if (!address) return null;
+
+  const region = address.region || (address.country && address.country !== 'US' ? address.country : undefined);
+  const parts = [address.city, region].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
@@ -0,0 +1,47 @@
+// src/lib/candidate-matching.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findClearWinner, rankCandidates } from './candidate-matching';
+import { ExtractedText, PlacesResult } from './types';
+
+const sign = (fields: Partial<ExtractedText> = {}): ExtractedText => ({
+  businessNames: ["JOE'S PIZZA"],
+  addresses: [],
+  phoneNumbers: [],
+  websites: [],
+  emails: [],
+  otherText: [],
+  confidence: { businessName: 'High', address: 'Low', phone: 'Low' },
+  ...fields
+});
+
+const places: PlacesResult[] = [
+  { place_id: 'carmine', name: "Joe's Pizza", formatted_address: '7 Carmine St, New York, NY 10014, USA' },
+  { place_id: 'village', name: "Joe's Pizza of Greenwich Village", formatted_address: '150 E 14th St, New York, NY 10003, USA' }
+];
+
+describe('findClearWinner', () => {
+  it('lets the user choose when only the name matches', () => {
+    const ranked = rankCandidates(places, sign());
+
+    assert.equal(ranked[0].place_id, 'carmine');
+    assert.ok(ranked[0].match.score - ranked[1].match.score >= 15);
+    assert.equal(findClearWinner(ranked), null);
+  });
+
+  it('picks the leader when the photographed address agrees', () => {
+    const ranked = rankCandidates(places, sign({ addresses: ['7 Carmine St, New York, NY 10014'] }));
+    assert.equal(findClearWinner(ranked)?.place_id, 'carmine');
+  });
+
+  it('picks the leader when the photo was taken next to it', () => {
+    const nearby = places.map(place => ({ ...place, distance_meters: place.place_id === 'carmine' ? 40 : 2600 }));
+    assert.equal(findClearWinner(rankCandidates(nearby, sign()))?.place_id, 'carmine');
+  });
+
+  it('does not count a different phone number as evidence', () => {
+    const called = places.map(place => ({ ...place, international_phone_number: '+1 212-366-1182' }));
+    const ranked = rankCandidates(called, sign({ phoneNumbers: ['(212) 555-0199'] }));
+    assert.equal(findClearWinner(ranked), null);
+  });
+});
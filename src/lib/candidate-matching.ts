@@ -0,0 +1,168 @@
+// src/lib/candidate-matching.ts
+import { foldKeywordText } from './keywords';
+import { normalizePhoneNumber } from './phone';
+import { transliterateName } from './script';
+import { ExtractedText, PlacesResult } from './types';
+
+export interface CandidateMatch {
+  score: number; // 0-100, over the evidence available for this candidate
+  components: {
+    name: number;      // 0-1 similarity to the name read off the sign
+    phone?: number;    // 1 when a photographed number is the place's number, else 0
+    address?: number;  // Share of the photographed address words found in the place's address
+    distance?: number; // 1 next to the photo's GPS position, 0 from DISTANCE_FAR_METERS away
+  };
+  reasons: string[]; // Short notes for the location selector, which shows the distance separately
+}
+
+export type RankedCandidate<T> = T & { match: CandidateMatch };
+
+// Points for a perfect component; missing evidence is left out rather than scored as zero
+const WEIGHTS = { name: 50, phone: 25, address: 15, distance: 10 };
+
+const DISTANCE_NEAR_METERS = 150;
+const DISTANCE_FAR_METERS = 5000;
+
+// A candidate is picked without asking when it scores this well and leads the next one by this much
+const AUTO_SELECT_MIN_SCORE = 75;
+const AUTO_SELECT_MIN_LEAD = 15;
+
+// Share of the photographed address words that counts as the same address
+const ADDRESS_MATCH_SHARE = 0.8;
+
+// Other names read off the sign count, but less than the top one
+const ALTERNATE_NAME_FACTOR = 0.9;
+
+const normalizeName = (name: string) =>
+  foldKeywordText(name).replace(/&/g, ' and ').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * How alike two business names are, 0-1: the best of word overlap, edit
+ * distance and containment ("Joe's" in "Joe's Pizza & Grill"), ignoring case,
+ * accents and punctuation.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  const wordOverlap = 2 * shared / (leftWords.size + rightWords.size);
+
+  const leftJoined = left.replace(/ /g, '');
+  const rightJoined = right.replace(/ /g, '');
+  const editSimilarity = 1 - levenshtein(leftJoined, rightJoined) / Math.max(leftJoined.length, rightJoined.length);
+
+  const [shorter, longer] = leftJoined.length <= rightJoined.length ? [leftJoined, rightJoined] : [rightJoined, leftJoined];
+  const containment = shorter.length >= 4 && longer.includes(shorter) ? 0.85 : 0;
+
+  return Math.max(wordOverlap, editSimilarity, containment);
+}
+
+// Best similarity to any name read off the sign, or to its Latin spelling
+function scoreName(placeName: string, extracted: ExtractedText): number {
+  return extracted.businessNames.slice(0, 3).reduce((best, name, index) => {
+    const latin = transliterateName(name);
+    const similarity = Math.max(nameSimilarity(name, placeName), latin ? nameSimilarity(latin, placeName) : 0);
+    return Math.max(best, similarity * (index === 0 ? 1 : ALTERNATE_NAME_FACTOR));
+  }, 0);
+}
+
+function scorePhone(place: PlacesResult, extracted: ExtractedText): number | undefined {
+  const placePhone = normalizePhoneNumber(place.international_phone_number)?.e164;
+  const photoPhones = extracted.phones?.map(phone => phone.e164) ||
+    extracted.phoneNumbers.map(phone => normalizePhoneNumber(phone)?.e164).filter(Boolean);
+  if (!placePhone || photoPhones.length === 0) return undefined;
+  return photoPhones.includes(placePhone) ? 1 : 0;
+}
+
+function scoreAddress(place: PlacesResult, extracted: ExtractedText): number | undefined {
+  const photoAddress = extracted.addressComponents?.[0]?.formatted || extracted.addresses[0];
+  if (!photoAddress || !place.formatted_address) return undefined;
+
+  const words = normalizeName(photoAddress).split(' ').filter(word => word.length >= 2 || /\d/.test(word));
+  if (words.length === 0) return undefined;
+  const placeWords = new Set(normalizeName(place.formatted_address).split(' '));
+  return words.filter(word => placeWords.has(word)).length / words.length;
+}
+
+function scoreDistance(place: PlacesResult): number | undefined {
+  if (place.distance_meters === undefined) return undefined;
+  const beyondNear = Math.max(0, place.distance_meters - DISTANCE_NEAR_METERS);
+  return Math.max(0, 1 - beyondNear / (DISTANCE_FAR_METERS - DISTANCE_NEAR_METERS));
+}
+
+/**
+ * Score a Places candidate against what the photo shows: the name on the
+ * sign, photographed phone numbers and address, and the photo's GPS position.
+ */
+export function matchCandidate(place: PlacesResult, extracted: ExtractedText): CandidateMatch {
+  const components: CandidateMatch['components'] = {
+    name: scoreName(place.name, extracted),
+    phone: scorePhone(place, extracted),
+    address: scoreAddress(place, extracted),
+    distance: scoreDistance(place)
+  };
+
+  let points = 0;
+  let possible = 0;
+  (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]).forEach(key => {
+    const value = components[key];
+    if (value === undefined) return;
+    points += WEIGHTS[key] * value;
+    possible += WEIGHTS[key];
+  });
+
+  const reasons = [`Name ${Math.round(components.name * 100)}% similar`];
+  if (components.phone !== undefined) reasons.push(components.phone ? 'Phone matches' : 'Different phone');
+  if (components.address !== undefined) {
+    reasons.push(components.address >= ADDRESS_MATCH_SHARE ? 'Address matches' : components.address > 0 ? 'Address partly matches' : 'Different address');
+  }
+
+  return { score: Math.round(points / possible * 100), components, reasons };
+}
+
+/**
+ * Score every candidate and sort best first; ties keep the Places order.
+ */
+export function rankCandidates<T extends PlacesResult>(places: T[], extracted: ExtractedText): RankedCandidate<T>[] {
+  return places
+    .map(place => ({ ...place, match: matchCandidate(place, extracted) }))
+    .sort((a, b) => b.match.score - a.match.score);
+}
+
+// Evidence beyond the name: a name alone cannot tell "Joe's Pizza" from "Joe's Pizza of Greenwich Village"
+function isCorroborated({ components }: CandidateMatch): boolean {
+  return components.phone === 1 ||
+    (components.address ?? 0) >= ADDRESS_MATCH_SHARE ||
+    components.distance === 1;
+}
+
+/**
+ * The top candidate when it is a clear winner: a strong match well ahead of
+ * the runner-up, whose phone, address or position agrees with the photo.
+ * Null when the user should choose.
+ */
+export function findClearWinner<T>(ranked: RankedCandidate<T>[]): RankedCandidate<T> | null {
+  const [best, runnerUp] = ranked;
+  if (!best || best.match.score < AUTO_SELECT_MIN_SCORE || !isCorroborated(best.match)) return null;
+  if (runnerUp && best.match.score - runnerUp.match.score < AUTO_SELECT_MIN_LEAD) return null;
+  return best;
+}
@@ -0,0 +1,75 @@
+// src/lib/competition.ts
+import { distanceInMeters } from './geo';
+import { getPlacesClient } from './places-client';
+import { PlacesResult } from './types';
+
+export interface CompetitionAnalysis {
+  type: string;                    // Places type the competitors were searched by
+  radiusMeters: number;
+  competitorCount: number;         // Capped by the nearby search at 20
+  averageRating?: number;          // Of the competitors that have a rating
+  nearestDistanceMeters?: number;
+}
+
+// Walking distance: customers choosing between two shops of the same kind
+const COMPETITION_RADIUS_METERS = Number(process.env.COMPETITION_RADIUS_METERS) || 1000;
+
+// Types every place carries or that cover whole sectors; searching by them finds neighbours, not competitors
+const GENERIC_PLACE_TYPES = ['establishment', 'point_of_interest', 'food', 'store', 'health', 'finance', 'premise'];
+
+/**
+ * The type to compare a place with: its primary type (Places API (New)),
+ * otherwise the first specific entry in its types.
+ */
+function competitorType(place: Pick<PlacesResult, 'primary_type' | 'types'>): string | null {
+  if (place.primary_type) return place.primary_type;
+  return (place.types || []).find(type => !GENERIC_PLACE_TYPES.includes(type)) || null;
+}
+
+/**
+ * Places of the same type within walking distance of the business: how many
+ * there are, how well they are rated and how close the nearest one is.
+ * Returns null when the place has no position or type, or the search fails.
+ */
+export async function analyzeCompetition(
+  place: Pick<PlacesResult, 'place_id' | 'primary_type' | 'types' | 'geometry'>,
+  radiusMeters: number = COMPETITION_RADIUS_METERS
+): Promise<CompetitionAnalysis | null> {
+  const center = place.geometry?.location;
+  const type = competitorType(place);
+  if (!center || !type) {
+    console.log('🏪 Skipping competition analysis: place has no position or specific type');
+    return null;
+  }
+
+  const client = getPlacesClient();
+  if (!client.isConfigured()) return null;
+
+  try {
+    console.log(`🏪 Searching for "${type}" competitors within ${radiusMeters}m (${client.name})`);
+    const nearby = await client.searchNearby({ center, radiusMeters, types: [type] });
+    const competitors = nearby.filter(competitor =>
+      competitor.place_id !== place.place_id && competitor.business_status !== 'CLOSED_PERMANENTLY'
+    );
+
+    const ratings = competitors.map(competitor => competitor.rating).filter((rating): rating is number => !!rating);
+    const distances = competitors
+      .filter(competitor => competitor.geometry?.location)
+      .map(competitor => distanceInMeters(center, competitor.geometry!.location));
+
+    const analysis: CompetitionAnalysis = {
+      type,
+      radiusMeters,
+      competitorCount: competitors.length,
+      averageRating: ratings.length > 0
+        ? Math.round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length * 10) / 10
+        : undefined,
+      nearestDistanceMeters: distances.length > 0 ? Math.round(Math.min(...distances)) : undefined
+    };
+    console.log(`🏪 ${analysis.competitorCount} competitors, average rating ${analysis.averageRating ?? 'N/A'}, nearest ${analysis.nearestDistanceMeters ?? 'N/A'}m`);
+    return analysis;
+  } catch (error) {
+    console.error('❌ Competition analysis error:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
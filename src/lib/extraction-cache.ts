@@ -0,0 +1,212 @@
+// src/lib/extraction-cache.ts
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { hammingDistance } from './image-hash';
+import { ImageDimensions } from './image-normalization';
+import { ExtractedText } from './types';
+
+export type ExtractionCacheName = 'memory' | 'file';
+
+export interface CacheKey {
+  contentHash: string;         // SHA-256 of the uploaded bytes
+  perceptualHash: string;      // dHash of the normalized image
+  detailHash: string;          // 64x64 dHash of the normalized image, to confirm perceptual matches
+  dimensions: ImageDimensions; // Of the normalized image the word boxes were measured on
+  scope: string;               // Everything besides the pixels that changes the result (see cacheScope)
+}
+
+export interface CacheEntry extends CacheKey {
+  extracted: ExtractedText;
+  createdAt: number;
+}
+
+export interface CacheLookup {
+  entry: CacheEntry;
+  match: 'exact' | 'perceptual';
+  distance: number; // Differing bits between the perceptual hashes, 0 for an exact match
+}
+
+export interface ExtractionCache {
+  name: ExtractionCacheName;
+  get(key: CacheKey): Promise<CacheLookup | null>;
+  set(entry: CacheEntry): Promise<void>;
+}
+
+// Off by default: only the very same file is served from the cache. Business cards sharing a
+// layout can hash a couple of bits apart, so near-duplicates are opt-in and checked twice
+const PERCEPTUAL_MATCHING = process.env.EXTRACTION_CACHE_PERCEPTUAL === 'true';
+
+// Re-encoded or re-sent copies of a photo differ in a few of the 64 bits; unrelated photos in about half
+const MAX_PERCEPTUAL_DISTANCE = Number(process.env.EXTRACTION_CACHE_MAX_DISTANCE) || 5;
+
+// Re-encoded copies differ in a handful of the 4032 detail bits; a changed word on the same card in dozens
+const MAX_DETAIL_DISTANCE = 16;
+
+// Old entries are dropped so OCR improvements reach photos that keep being re-uploaded
+const CACHE_TTL_MS = (Number(process.env.EXTRACTION_CACHE_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+const MAX_MEMORY_ENTRIES = 500;
+
+/**
+ * Short hash of the settings an extraction depends on (OCR provider, mode,
+ * language hints, regions...), so a photo read with different settings is
+ * not served from the cache.
+ */
+export function cacheScope(settings: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(settings)).digest('hex').slice(0, 16);
+}
+
+const isExpired = (createdAt: number) => Date.now() - createdAt > CACHE_TTL_MS;
+
+type IndexedKey = Pick<CacheKey, 'scope' | 'contentHash' | 'perceptualHash'>;
+
+// The exact file alone when cached; otherwise, if allowed, near-duplicates within the distance limit, nearest first
+function findCandidates<T extends IndexedKey>(
+  candidates: Iterable<T>,
+  key: CacheKey,
+  perceptual: boolean
+): { candidate: T; distance: number }[] {
+  const near: { candidate: T; distance: number }[] = [];
+  for (const candidate of candidates) {
+    if (candidate.scope !== key.scope) continue;
+    if (candidate.contentHash === key.contentHash) return [{ candidate, distance: 0 }];
+    if (!perceptual) continue;
+
+    const distance = hammingDistance(candidate.perceptualHash, key.perceptualHash);
+    if (distance <= MAX_PERCEPTUAL_DISTANCE) near.push({ candidate, distance });
+  }
+  return near.sort((a, b) => a.distance - b.distance);
+}
+
+// A near-duplicate also needs the same normalized size and a close detail hash; entries from before it had none
+function isConfirmed(entry: CacheEntry, key: CacheKey): boolean {
+  if (entry.contentHash === key.contentHash) return true;
+  return entry.dimensions.width === key.dimensions.width &&
+    entry.dimensions.height === key.dimensions.height &&
+    entry.detailHash?.length === key.detailHash.length &&
+    hammingDistance(entry.detailHash, key.detailHash) <= MAX_DETAIL_DISTANCE;
+}
+
+const toLookup = (entry: CacheEntry, key: CacheKey, distance: number): CacheLookup => ({
+  entry,
+  match: entry.contentHash === key.contentHash ? 'exact' : 'perceptual',
+  distance
+});
+
+// ---------------------------------------------------------------------------
+// In-memory (per server process)
+// ---------------------------------------------------------------------------
+
+export function createMemoryExtractionCache(
+  maxEntries = MAX_MEMORY_ENTRIES,
+  perceptual = PERCEPTUAL_MATCHING
+): ExtractionCache {
+  // Insertion order doubles as age order for eviction
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    name: 'memory',
+
+    async get(key: CacheKey): Promise<CacheLookup | null> {
+      for (const [id, entry] of entries) {
+        if (isExpired(entry.createdAt)) entries.delete(id);
+      }
+      const match = findCandidates(entries.values(), key, perceptual)
+        .find(({ candidate }) => isConfirmed(candidate, key));
+      return match ? toLookup(match.candidate, key, match.distance) : null;
+    },
+
+    async set(entry: CacheEntry): Promise<void> {
+      const id = `${entry.scope}-${entry.contentHash}`;
+      entries.delete(id);
+      entries.set(id, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// File system (local development)
+// ---------------------------------------------------------------------------
+
+// The key is in the file name, so lookups list the folder and only read the files that may match
+const CACHE_FILE_REGEX = /^([0-9a-f]{16})-([0-9a-f]{64})-([0-9a-f]{16})\.json$/;
+
+/**
+ * One JSON file per image in `directory` (EXTRACTION_CACHE_DIR, default
+ * .extraction-cache). Survives restarts, so repeated local runs against the
+ * same photos do not spend OCR quota. Meant for a single server process.
+ */
+export function createFileExtractionCache(
+  directory: string = process.env.EXTRACTION_CACHE_DIR || path.join(process.cwd(), '.extraction-cache'),
+  perceptual = PERCEPTUAL_MATCHING
+): ExtractionCache {
+  const fileName = (key: CacheKey) => `${key.scope}-${key.contentHash}-${key.perceptualHash}.json`;
+
+  return {
+    name: 'file',
+
+    async get(key: CacheKey): Promise<CacheLookup | null> {
+      let files: string[];
+      try {
+        files = await fs.readdir(directory);
+      } catch {
+        return null; // Nothing cached yet
+      }
+
+      const keys = files
+        .map(file => file.match(CACHE_FILE_REGEX))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(([file, scope, contentHash, perceptualHash]) => ({ file, scope, contentHash, perceptualHash }));
+      for (const { candidate, distance } of findCandidates(keys, key, perceptual)) {
+        const filePath = path.join(directory, candidate.file);
+        try {
+          const entry: CacheEntry = JSON.parse(await fs.readFile(filePath, 'utf8'));
+          if (isExpired(entry.createdAt)) {
+            await fs.unlink(filePath).catch(() => undefined);
+          } else if (isConfirmed(entry, key)) {
+            return toLookup(entry, key, distance);
+          }
+        } catch (error) {
+          console.warn(`⚠️ Ignoring unreadable cache file ${candidate.file}:`, error instanceof Error ? error.message : error);
+        }
+      }
+      return null;
+    },
+
+    async set(entry: CacheEntry): Promise<void> {
+      await fs.mkdir(directory, { recursive: true });
+      // Write then rename, so a concurrent reader never sees half a file
+      const filePath = path.join(directory, fileName(entry));
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(entry));
+      await fs.rename(tempPath, filePath);
+    }
+  };
+}
+
+let memoryCache: ExtractionCache | null = null;
+
+/**
+ * Resolve the extraction cache from EXTRACTION_CACHE ('memory' | 'file' |
+ * 'none'). Defaults to an in-memory cache; 'none' disables caching. Only
+ * exact copies of a file are served unless EXTRACTION_CACHE_PERCEPTUAL=true.
+ */
+export function getExtractionCache(
+  name: string | undefined = process.env.EXTRACTION_CACHE
+): ExtractionCache | null {
+  switch (name || 'memory') {
+    case 'none':
+      return null;
+    case 'memory':
+      memoryCache = memoryCache || createMemoryExtractionCache();
+      return memoryCache;
+    case 'file':
+      return createFileExtractionCache();
+    default:
+      throw new Error(`Unknown extraction cache "${name}". Expected one of: memory, file, none`);
+  }
+}
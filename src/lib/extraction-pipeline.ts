@@ -0,0 +1,205 @@
+// src/lib/extraction-pipeline.ts
+import { CacheKey, CacheLookup, cacheScope, ExtractionCache } from './extraction-cache';
+import { contentHash, detailHash, perceptualHash } from './image-hash';
+import { createPreviewDataUrl, ImageDimensions, normalizeImage, NormalizationOptions } from './image-normalization';
+import { assessImageQuality, ImageQualityReport } from './image-quality';
+import { ImageAdjustments, NO_ADJUSTMENTS, RegionMode, regionToPixels } from './image-regions';
+import { applyImageUnderstanding, ImageUnderstanding, ImageUnderstandingProvider } from './image-understanding';
+import { OCR_MODE_PREFERENCES, OcrModePreference, OcrProvider, parseLanguageHints } from './ocr';
+import { readPhotoMetadata } from './photo-metadata';
+import { ExtractedText, PhotoMetadata } from './types';
+import { extractTextWithEnhancedVision } from './vision';
+
+export interface ImageExtractionOptions {
+  normalization?: NormalizationOptions;
+  ocrMode?: OcrModePreference;
+  languageHints?: string[];
+  skipQualityCheck?: boolean;
+  adjustments?: ImageAdjustments; // The user's rotation and marked regions for this image
+  regionMode?: RegionMode;
+  includePreview?: boolean; // Return a small copy of the image OCR read, for drawing word boxes
+  imageUnderstanding?: ImageUnderstandingProvider | null; // Optional logo and label detection
+  cache?: ExtractionCache | null; // Reuse results for the same photo, or a near-duplicate when enabled
+}
+
+export interface ImageExtraction {
+  extracted: ExtractedText | null; // null when the quality check ruled out OCR
+  quality: ImageQualityReport;
+  originalDimensions: ImageDimensions;
+  normalizedDimensions: ImageDimensions;
+  normalizationSteps: string[];
+  photo: PhotoMetadata; // EXIF capture time and GPS position
+  cacheHit?: Pick<CacheLookup, 'match' | 'distance'>; // Set when the text came from the cache
+  preview?: string; // JPEG data URL
+}
+
+/**
+ * Read the per-request OCR settings shared by the single and batch upload
+ * routes from a multipart form.
+ */
+export function extractionOptionsFromForm(formData: FormData): Pick<
+  ImageExtractionOptions,
+  'normalization' | 'ocrMode' | 'languageHints' | 'skipQualityCheck'
+> {
+  // Scene text for signage, document layout for cards/menus/flyers, or decide per image
+  const requestedMode = formData.get('ocrMode') as OcrModePreference | null;
+
+  return {
+    // Optional preprocessing toggles for low-contrast or colour-noisy photos
+    normalization: {
+      enhanceContrast: formData.get('enhanceContrast') === 'true',
+      grayscale: formData.get('grayscale') === 'true'
+    },
+    ocrMode: requestedMode && OCR_MODE_PREFERENCES.includes(requestedMode) ? requestedMode : 'auto',
+    // Languages on the sign, e.g. "ko,en"; defaults to OCR_LANGUAGE_HINTS
+    languageHints: parseLanguageHints(formData.get('languageHints') as string | null),
+    // Send photos that fail the local quality check to OCR anyway
+    skipQualityCheck: formData.get('skipQualityCheck') === 'true'
+  };
+}
+
+// The understanding pass only adds hints, so its failures never fail the image
+async function analyzeImage(
+  imageBuffer: Buffer,
+  provider: ImageUnderstandingProvider | null | undefined
+): Promise<ImageUnderstanding | null> {
+  if (!provider) return null;
+  try {
+    return await provider.analyze(imageBuffer);
+  } catch (error) {
+    console.warn(`⚠️ Image understanding (${provider.name}) failed:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Like image understanding, the cache only saves work, so its failures never fail the image
+async function lookupCache(cache: ExtractionCache, key: CacheKey): Promise<CacheLookup | null> {
+  try {
+    return await cache.get(key);
+  } catch (error) {
+    console.warn(`⚠️ Extraction cache (${cache.name}) lookup failed:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+async function storeInCache(cache: ExtractionCache, key: CacheKey, extracted: ExtractedText): Promise<void> {
+  try {
+    await cache.set({ ...key, extracted, createdAt: Date.now() });
+  } catch (error) {
+    console.warn(`⚠️ Extraction cache (${cache.name}) write failed:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Run one uploaded image through normalization, a local quality check and
+ * OCR post-processing. Photos the check rejects are not sent to OCR.
+ * Marked regions are either cropped out before OCR or used to favour the
+ * name candidates read inside them. The photo's EXIF capture time and GPS
+ * position travel with the extracted text. With a cache, the same photo (or,
+ * when enabled, a confirmed near-duplicate) skips OCR and reuses its text.
+ */
+export async function extractFromImageFile(
+  file: File,
+  ocrProvider: OcrProvider,
+  options: ImageExtractionOptions = {}
+): Promise<ImageExtraction> {
+  console.log(`Processing image: ${file.name} (${file.size} bytes, ${file.type || 'unknown type'})`);
+
+  // Convert file to buffer
+  const bytes = await file.arrayBuffer();
+  const buffer = Buffer.from(bytes);
+
+  const adjustments = options.adjustments || NO_ADJUSTMENTS;
+  const regionMode = options.regionMode || 'crop';
+  // EXIF is read from the upload itself; the normalized image no longer carries it
+  const [normalized, photo] = await Promise.all([
+    normalizeImage(buffer, file.type, file.name, {
+      ...options.normalization,
+      rotation: adjustments.rotation,
+      cropRegions: regionMode === 'crop' ? adjustments.regions : []
+    }),
+    readPhotoMetadata(buffer)
+  ]);
+
+  // Judge the resolution of what OCR will actually see, which may be a small crop
+  const quality = assessImageQuality(normalized.qualitySample, normalized.prepared);
+  if (quality.warnings.length > 0) {
+    console.log(`⚠️ Image quality: ${quality.warnings.map(w => `${w.code} (${w.severity})`).join(', ')}`, quality.metrics);
+  }
+
+  const skipOcr = !quality.acceptable && !options.skipQualityCheck;
+  if (skipOcr) {
+    console.log(`⛔ Skipping OCR for ${file.name}: image quality too low`);
+  }
+
+  const focusRegions = regionMode === 'weight'
+    ? adjustments.regions.map(region => {
+      const { left, top, width, height } = regionToPixels(region, normalized.normalized.width, normalized.normalized.height);
+      return { x: left, y: top, width, height };
+    })
+    : [];
+
+  const cache = skipOcr ? null : options.cache;
+  const cacheKey: CacheKey | null = cache
+    ? {
+      contentHash: contentHash(buffer),
+      perceptualHash: await perceptualHash(normalized.buffer),
+      detailHash: await detailHash(normalized.buffer),
+      dimensions: normalized.normalized,
+      scope: cacheScope({
+        ocrProvider: ocrProvider.name,
+        imageUnderstanding: options.imageUnderstanding?.name,
+        ocrMode: options.ocrMode,
+        languageHints: options.languageHints,
+        normalization: options.normalization,
+        adjustments,
+        regionMode
+      })
+    }
+    : null;
+  const cached = cache && cacheKey ? await lookupCache(cache, cacheKey) : null;
+  if (cached) {
+    console.log(`♻️ Cache hit for ${file.name} (${cached.match}${cached.match === 'perceptual' ? `, ${cached.distance} bits apart` : ''})`);
+  }
+
+  // Extract text using Enhanced Vision (OCR provider + Smart Post-Processing),
+  // with logo and label detection running alongside when a provider is configured
+  const [ocrExtracted, understanding] = skipOcr || cached
+    ? [null, null]
+    : await Promise.all([
+      extractTextWithEnhancedVision(normalized.buffer, ocrProvider, options.ocrMode, {
+        focusRegions,
+        languageHints: options.languageHints
+      }),
+      analyzeImage(normalized.buffer, options.imageUnderstanding)
+    ]);
+  const understood = cached
+    ? cached.entry.extracted
+    : ocrExtracted && understanding
+      ? applyImageUnderstanding(ocrExtracted, understanding)
+      : ocrExtracted;
+
+  if (cache && cacheKey && !cached && understood) {
+    await storeInCache(cache, cacheKey, understood);
+  }
+
+  // EXIF belongs to this upload, not to the photo the cached text came from
+  const extracted = understood && (photo.capturedAt || photo.location)
+    ? { ...understood, capturedAt: photo.capturedAt, photoLocation: photo.location }
+    : understood;
+
+  const preview = options.includePreview && extracted
+    ? await createPreviewDataUrl(normalized.buffer)
+    : undefined;
+
+  return {
+    extracted,
+    quality,
+    originalDimensions: { width: normalized.original.width, height: normalized.original.height },
+    normalizedDimensions: normalized.normalized,
+    normalizationSteps: normalized.steps,
+    photo,
+    cacheHit: cached ? { match: cached.match, distance: cached.distance } : undefined,
+    preview
+  };
+}
@@ -0,0 +1,227 @@
+// src/lib/hours.ts
+import { DailyHours, Weekday } from './types';
+
+export const WEEKDAYS: Weekday[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const DAY_PATTERN = 'mon(?:day)?|tue(?:s|sday)?|wed(?:s|nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?';
+const DAY_GROUP_PATTERN = `daily|every\\s?day|7\\s?days(?:\\s?a\\s?week)?|weekdays|weekends|(?:(?:${DAY_PATTERN})\\.?(?:\\s*(?:-|&|,|/|and)\\s*)?)+`;
+const DAY_GROUP_REGEX = new RegExp(`\\b(?:${DAY_GROUP_PATTERN})(?![a-z])`, 'gi');
+const SINGLE_DAY_REGEX = new RegExp(`\\b(${DAY_PATTERN})\\.?(?![a-z])`, 'gi');
+
+const TIME_PATTERN = '(noon|midnight|\\d{1,2}(?:[:.]\\d{2})?\\s*(?:a\\.?m\\.?|p\\.?m\\.?|a|p)?)';
+const TIME_RANGE_REGEX = new RegExp(`${TIME_PATTERN}\\s*-\\s*${TIME_PATTERN}`, 'i');
+
+interface ParsedTime {
+  hour: number;
+  minute: number;
+  meridiem?: 'am' | 'pm';
+  explicit24h: boolean;
+}
+
+function normalizeLine(line: string): string {
+  return line
+    .toLowerCase()
+    .replace(/[‒-―−~]/g, '-')
+    .replace(/\s+(?:thru|through|to|until|till)\s+/g, ' - ');
+}
+
+function dayIndex(token: string): number {
+  const prefix = token.toLowerCase().slice(0, 3);
+  return ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'].indexOf(prefix);
+}
+
+/**
+ * Expand a day expression such as "mon-fri", "sat & sun" or "weekdays"
+ * into weekday indexes (0 = Monday).
+ */
+function parseDayGroup(group: string): number[] {
+  const text = group.trim();
+  if (/^(daily|every\s?day|7\s?days)/.test(text)) return [0, 1, 2, 3, 4, 5, 6];
+  if (text.startsWith('weekdays')) return [0, 1, 2, 3, 4];
+  if (text.startsWith('weekends')) return [5, 6];
+
+  const days: number[] = [];
+  const matches = [...text.matchAll(SINGLE_DAY_REGEX)];
+
+  matches.forEach((match, i) => {
+    const current = dayIndex(match[1]);
+    const previous = matches[i - 1];
+    const separator = previous ? text.slice(previous.index! + previous[0].length, match.index).trim() : '';
+
+    if (previous && separator === '-') {
+      // Range: fill the days between the previous day and this one (wrapping past Sunday)
+      const start = dayIndex(previous[1]);
+      for (let d = (start + 1) % 7; d !== current; d = (d + 1) % 7) {
+        days.push(d);
+      }
+    }
+    days.push(current);
+  });
+
+  return [...new Set(days)];
+}
+
+function parseTime(token: string): ParsedTime | null {
+  const text = token.trim().toLowerCase();
+  if (text === 'noon') return { hour: 12, minute: 0, meridiem: 'pm', explicit24h: false };
+  if (text === 'midnight') return { hour: 0, minute: 0, explicit24h: true };
+
+  const match = text.match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(a|p)?/);
+  if (!match) return null;
+
+  const hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  if (hour > 24 || minute > 59) return null;
+
+  return {
+    hour,
+    minute,
+    meridiem: match[3] === 'a' ? 'am' : match[3] === 'p' ? 'pm' : undefined,
+    // "08:00" or "17:00" style times are already 24-hour
+    explicit24h: hour > 12 || /^0\d/.test(match[1])
+  };
+}
+
+function to24Hour(time: ParsedTime, meridiem?: 'am' | 'pm'): number {
+  if (time.explicit24h || !meridiem) return time.hour % 24;
+  if (meridiem === 'am') return time.hour % 12;
+  return (time.hour % 12) + 12;
+}
+
+function formatClock(hour: number, minute: number): string {
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Resolve a signage time range to 24-hour "HH:MM" strings. Signs often omit
+ * am/pm ("8-5"), so missing meridiems are inferred from the other end of the range.
+ */
+function parseTimeRange(openToken: string, closeToken: string): { open: string; close: string } | null {
+  const open = parseTime(openToken);
+  const close = parseTime(closeToken);
+  if (!open || !close) return null;
+
+  let openMeridiem = open.meridiem;
+  let closeMeridiem = close.meridiem;
+
+  if (!open.explicit24h && !close.explicit24h) {
+    if (!openMeridiem && !closeMeridiem) {
+      // "8-5": opens in the morning, closes in the afternoon when the number goes down
+      openMeridiem = open.hour === 12 ? 'pm' : 'am';
+      closeMeridiem = close.hour === 12 || close.hour % 12 <= open.hour % 12 ? 'pm' : 'am';
+    } else if (!openMeridiem) {
+      // "7-9pm" shares the meridiem, "11-9pm" crosses noon
+      openMeridiem = open.hour % 12 <= close.hour % 12 ? closeMeridiem : closeMeridiem === 'pm' ? 'am' : 'pm';
+    } else if (!closeMeridiem) {
+      closeMeridiem = close.hour % 12 <= open.hour % 12 ? (openMeridiem === 'am' ? 'pm' : 'am') : openMeridiem;
+    }
+  }
+
+  return {
+    open: formatClock(to24Hour(open, openMeridiem), open.minute),
+    close: formatClock(to24Hour(close, closeMeridiem), close.minute)
+  };
+}
+
+function parseHoursSpec(spec: string): Omit<DailyHours, 'day'> | null {
+  const text = spec.trim();
+  if (!text) return null;
+
+  if (/^(?:closed|close)\b/.test(text)) return { closed: true };
+  if (/24\s?(?:hours|hrs|h)\b|open 24/.test(text)) return { closed: false, open: '00:00', close: '24:00' };
+
+  const range = text.match(TIME_RANGE_REGEX);
+  if (!range || range.index! > 12) return null;
+
+  const times = parseTimeRange(range[1], range[2]);
+  return times ? { closed: false, ...times } : null;
+}
+
+/**
+ * Parse opening hours printed on door decals and window signs, e.g.
+ * "MON–FRI 7AM-9PM, SAT 8-5, SUN CLOSED". Returns one entry per day that
+ * the sign mentions, ordered Monday to Sunday.
+ */
+export function extractOpeningHours(text: string): DailyHours[] {
+  const hoursByDay = new Map<number, Omit<DailyHours, 'day'>>();
+  const lines = text.split('\n').map(normalizeLine).filter(line => line.trim().length > 0);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const groups = [...line.matchAll(DAY_GROUP_REGEX)].filter(match => match[0].trim().length > 0);
+
+    groups.forEach((group, g) => {
+      const next = groups[g + 1];
+      const after = line.slice(group.index! + group[0].length, next ? next.index : undefined).replace(/^[\s:,-]+/, '');
+
+      let hours = parseHoursSpec(after);
+
+      // "MON-FRI" on one line and "7AM-9PM" on the next
+      if (!hours && !after.trim() && !next && i + 1 < lines.length) {
+        hours = parseHoursSpec(lines[i + 1]);
+      }
+
+      // "OPEN 24 HOURS 7 DAYS A WEEK" puts the hours first
+      if (!hours && g === 0) {
+        const before = line.slice(0, group.index);
+        hours = parseHoursSpec(before.replace(/^\s*open\b/, ''));
+      }
+
+      if (!hours) return;
+
+      for (const day of parseDayGroup(group[0])) {
+        hoursByDay.set(day, hours);
+      }
+    });
+  }
+
+  const result = [...hoursByDay.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([day, hours]) => ({ day: WEEKDAYS[day], ...hours }));
+
+  console.log(`   Opening hours extraction: ${result.length} days found`);
+  return result;
+}
+
+/**
+ * True when the text is nothing but day names ("SAT", "Mon-Fri", "Daily"),
+ * as on the left of an hours line.
+ */
+export function isDayGroup(text: string): boolean {
+  return text.trim().length > 0 && !/\p{L}/u.test(normalizeLine(text).replace(DAY_GROUP_REGEX, ''));
+}
+
+function formatClock12(clock: string): string {
+  const [hour, minute] = clock.split(':').map(Number);
+  const meridiem = hour % 24 < 12 ? 'AM' : 'PM';
+  const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+  return `${hour12}:${minute.toString().padStart(2, '0')} ${meridiem}`;
+}
+
+/**
+ * Render parsed hours in the same "Monday: 7:00 AM – 9:00 PM" shape as
+ * Places' opening_hours.weekday_text.
+ */
+export function toWeekdayText(hours: DailyHours[]): string[] {
+  return hours.map(entry => {
+    if (entry.closed) return `${entry.day}: Closed`;
+    if (entry.open === '00:00' && entry.close === '24:00') return `${entry.day}: Open 24 hours`;
+    return `${entry.day}: ${formatClock12(entry.open!)} – ${formatClock12(entry.close!)}`;
+  });
+}
+
+/**
+ * Total weekly open hours; closing times at or before opening count as past midnight.
+ */
+export function getWeeklyOpenHours(hours: DailyHours[]): number {
+  return hours.reduce((total, entry) => {
+    if (entry.closed || !entry.open || !entry.close) return total;
+
+    const [openHour, openMinute] = entry.open.split(':').map(Number);
+    const [closeHour, closeMinute] = entry.close.split(':').map(Number);
+    let duration = (closeHour * 60 + closeMinute - (openHour * 60 + openMinute)) / 60;
+    if (duration <= 0) duration += 24;
+
+    return total + duration;
+  }, 0);
+}
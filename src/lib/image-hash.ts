@@ -0,0 +1,78 @@
+// src/lib/image-hash.ts
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+
+// dHash compares each pixel with its right neighbour on a 9x8 thumbnail: 64 bits
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+// The detail hash does the same on 65x64 (4032 bits), where lines of text still leave a trace
+const DETAIL_WIDTH = 65;
+const DETAIL_HEIGHT = 64;
+
+// Brightness steps smaller than this count as flat, so JPEG noise on a plain background flips no bits
+const DETAIL_MIN_STEP = 8;
+
+/**
+ * SHA-256 of the bytes as uploaded; identical only for the very same file.
+ */
+export function contentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * 64-bit difference hash (dHash) as 16 hex characters. Survives re-encoding,
+ * resizing and small exposure changes, so a re-saved or re-sent photo hashes
+ * within a few bits of the original.
+ */
+export async function perceptualHash(buffer: Buffer): Promise<string> {
+  return differenceHash(buffer, DHASH_WIDTH, DHASH_HEIGHT, 0);
+}
+
+/**
+ * 4032-bit difference hash as 1008 hex characters. Too fine to find
+ * near-duplicates with, but two business cards with the same layout and a
+ * different name, which the 64-bit hash can put a few bits apart, differ here
+ * in dozens of bits.
+ */
+export async function detailHash(buffer: Buffer): Promise<string> {
+  return differenceHash(buffer, DETAIL_WIDTH, DETAIL_HEIGHT, DETAIL_MIN_STEP);
+}
+
+// One bit per pixel, set when it is brighter than its right neighbour by more than minStep
+async function differenceHash(buffer: Buffer, width: number, height: number, minStep: number): Promise<string> {
+  const pixels = await sharp(buffer)
+    .grayscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let y = 0; y < height; y++) {
+    let nibble = 0;
+    for (let x = 0; x < width - 1; x++) {
+      const offset = y * width + x;
+      nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] + minStep ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes of equal length.
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
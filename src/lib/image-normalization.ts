@@ -0,0 +1,182 @@
+// src/lib/image-normalization.ts
+import sharp from 'sharp';
+import heicConvert from 'heic-convert';
+import { GrayscaleSample, QUALITY_SAMPLE_SIZE } from './image-quality';
+import { ImageRegion, ImageRotation, regionToPixels } from './image-regions';
+
+export interface NormalizationOptions {
+  maxDimension?: number;
+  enhanceContrast?: boolean;
+  grayscale?: boolean;
+  rotation?: ImageRotation;     // Clockwise, after the EXIF orientation
+  cropRegions?: ImageRegion[];  // Keep only these parts of the rotated image
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface NormalizedImage {
+  buffer: Buffer;
+  original: ImageDimensions & { format: string; orientation?: number };
+  normalized: ImageDimensions;
+  prepared: ImageDimensions; // After rotation and cropping, before downscaling
+  steps: string[];
+  qualitySample: GrayscaleSample; // Small grayscale copy before any contrast/colour changes
+}
+
+// Vision and Tesseract gain nothing from more pixels than this, and it keeps requests small
+const DEFAULT_MAX_DIMENSION = Number(process.env.IMAGE_MAX_DIMENSION) || 2560;
+
+// White space between stacked crops so OCR does not join their lines
+const CROP_GAP = 32;
+
+// Long side of the preview returned for drawing word boxes in the browser
+const PREVIEW_MAX_DIMENSION = 1024;
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+export function isHeicImage(mimeType: string, filename = ''): boolean {
+  return HEIC_TYPES.includes(mimeType.toLowerCase()) || /\.(heic|heif)$/i.test(filename);
+}
+
+/**
+ * Small JPEG data URL of the exact image OCR read, so word boxes can be drawn
+ * over it even when it was rotated or cropped on the server.
+ */
+export async function createPreviewDataUrl(normalized: Buffer): Promise<string> {
+  const preview = await sharp(normalized)
+    .resize({ width: PREVIEW_MAX_DIMENSION, height: PREVIEW_MAX_DIMENSION, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 70 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${preview.toString('base64')}`;
+}
+
+/**
+ * Apply the user's rotation and cut out their regions. Several regions are
+ * stacked top to bottom on a white canvas so they go to OCR as one image.
+ */
+async function rotateAndCrop(source: Buffer, rotation: ImageRotation, regions: ImageRegion[]): Promise<Buffer> {
+  const rotated = await sharp(source).rotate().rotate(rotation).jpeg({ quality: 95 }).toBuffer({ resolveWithObject: true });
+  if (regions.length === 0) return rotated.data;
+
+  const crops = await Promise.all(regions.map(region =>
+    sharp(rotated.data)
+      .extract(regionToPixels(region, rotated.info.width, rotated.info.height))
+      .toBuffer({ resolveWithObject: true })
+  ));
+  if (crops.length === 1) return crops[0].data;
+
+  const width = Math.max(...crops.map(crop => crop.info.width));
+  const height = crops.reduce((sum, crop) => sum + crop.info.height, 0) + CROP_GAP * (crops.length - 1);
+  let top = 0;
+  const layers = crops.map(crop => {
+    const layer = { input: crop.data, left: 0, top };
+    top += crop.info.height + CROP_GAP;
+    return layer;
+  });
+
+  return sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+    .composite(layers)
+    .jpeg({ quality: 95 })
+    .toBuffer();
+}
+
+/**
+ * Prepare an uploaded photo for OCR: decode HEIC, apply the EXIF orientation
+ * and any user rotation or crop, downscale oversized images and optionally
+ * boost contrast or drop colour.
+ * The output is always a JPEG so every OCR provider can read it.
+ */
+export async function normalizeImage(
+  input: Buffer,
+  mimeType: string,
+  filename = '',
+  options: NormalizationOptions = {}
+): Promise<NormalizedImage> {
+  const maxDimension = options.maxDimension || DEFAULT_MAX_DIMENSION;
+  const steps: string[] = [];
+  let source = input;
+
+  // libvips ships without an HEVC decoder, so HEIC goes through a JS decoder first
+  if (isHeicImage(mimeType, filename)) {
+    console.log('🔄 Converting HEIC image to JPEG...');
+    const converted = await heicConvert({ buffer: new Uint8Array(input), format: 'JPEG', quality: 0.95 });
+    source = Buffer.from(converted);
+    steps.push('heic-to-jpeg');
+  }
+
+  const metadata = await sharp(source).metadata();
+  const original = {
+    width: metadata.width || 0,
+    height: metadata.height || 0,
+    format: isHeicImage(mimeType, filename) ? 'heic' : metadata.format || 'unknown',
+    orientation: metadata.orientation
+  };
+
+  if (metadata.orientation && metadata.orientation > 1) {
+    steps.push(`exif-orientation-${metadata.orientation}`);
+  }
+
+  const rotation = options.rotation || 0;
+  const cropRegions = options.cropRegions || [];
+  if (rotation !== 0 || cropRegions.length > 0) {
+    source = await rotateAndCrop(source, rotation, cropRegions);
+    if (rotation !== 0) steps.push(`rotate-${rotation}`);
+    if (cropRegions.length > 0) steps.push(`crop-${cropRegions.length}-region${cropRegions.length > 1 ? 's' : ''}`);
+  }
+
+  // rotate() with no angle honours the EXIF orientation tag and then strips it
+  // (a no-op after rotateAndCrop, whose output has no EXIF data)
+  let pipeline = sharp(source).rotate();
+  const preparedMetadata = await sharp(source).metadata();
+  const oriented = (preparedMetadata.orientation || 1) >= 5;
+  const prepared = {
+    width: (oriented ? preparedMetadata.height : preparedMetadata.width) || 0,
+    height: (oriented ? preparedMetadata.width : preparedMetadata.height) || 0
+  };
+
+  if (Math.max(prepared.width, prepared.height) > maxDimension) {
+    pipeline = pipeline.resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true
+    });
+    steps.push(`downscale-${maxDimension}`);
+  }
+
+  if (options.grayscale) {
+    pipeline = pipeline.grayscale();
+    steps.push('grayscale');
+  }
+
+  if (options.enhanceContrast) {
+    pipeline = pipeline.normalise();
+    steps.push('contrast');
+  }
+
+  const sample = await sharp(source)
+    .rotate()
+    .resize({ width: QUALITY_SAMPLE_SIZE, height: QUALITY_SAMPLE_SIZE, fit: 'inside', withoutEnlargement: true })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { data, info } = await pipeline.jpeg({ quality: 90 }).toBuffer({ resolveWithObject: true });
+  if (original.format !== 'jpeg' && original.format !== 'heic') {
+    steps.push(`${original.format}-to-jpeg`);
+  }
+
+  console.log(`🖼️ Normalized image ${original.width}x${original.height} (${original.format}) → ${info.width}x${info.height} [${steps.join(', ') || 'no changes'}]`);
+
+  return {
+    buffer: data,
+    original,
+    normalized: { width: info.width, height: info.height },
+    prepared,
+    steps,
+    qualitySample: { data: sample.data, width: sample.info.width, height: sample.info.height }
+  };
+}
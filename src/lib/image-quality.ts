@@ -0,0 +1,179 @@
+// src/lib/image-quality.ts
+// Pure pixel math so the same checks run in the browser (canvas) and on the server (sharp)
+
+// Long side of the grayscale sample the checks run on; keeps thresholds independent of photo size
+export const QUALITY_SAMPLE_SIZE = 512;
+
+export interface GrayscaleSample {
+  data: ArrayLike<number>; // One luminance byte per pixel, row-major
+  width: number;
+  height: number;
+}
+
+export type ImageQualityIssue = 'blurry' | 'too-dark' | 'overexposed' | 'low-resolution' | 'no-text';
+
+export interface ImageQualityWarning {
+  code: ImageQualityIssue;
+  severity: 'warning' | 'error'; // 'error' means OCR is very unlikely to read anything
+  message: string;
+  guidance: string;
+}
+
+export interface ImageQualityMetrics {
+  sharpness: number;       // Variance of the Laplacian; low means blurry
+  brightness: number;      // Mean luminance, 0-255
+  clippedHighlights: number; // Share of pure-white pixels, 0-1
+  textCoverage: number;    // Share of the image with text-like edge density, 0-1
+  width: number;           // Original image size
+  height: number;
+}
+
+export interface ImageQualityReport {
+  acceptable: boolean;
+  metrics: ImageQualityMetrics;
+  warnings: ImageQualityWarning[];
+}
+
+const TILE_SIZE = 16;
+const EDGE_THRESHOLD = 48;
+
+/**
+ * Convert RGBA pixels (canvas ImageData, sharp raw output) to luminance.
+ */
+export function rgbaToGrayscale(rgba: ArrayLike<number>, width: number, height: number): Uint8Array {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2]);
+  }
+  return gray;
+}
+
+function measureBrightness(sample: GrayscaleSample): { brightness: number; clippedHighlights: number } {
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < sample.data.length; i++) {
+    sum += sample.data[i];
+    if (sample.data[i] >= 250) clipped++;
+  }
+  const count = Math.max(1, sample.data.length);
+  return { brightness: sum / count, clippedHighlights: clipped / count };
+}
+
+function measureSharpness({ data, width, height }: GrayscaleSample): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Share of tiles whose edge density looks like printed or painted lettering:
+ * busy enough to hold strokes, but not uniformly noisy like foliage or gravel.
+ */
+function measureTextCoverage({ data, width, height }: GrayscaleSample): number {
+  const tilesX = Math.floor(width / TILE_SIZE);
+  const tilesY = Math.floor(height / TILE_SIZE);
+  if (tilesX === 0 || tilesY === 0) return 0;
+
+  let textTiles = 0;
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      let edges = 0;
+      for (let y = ty * TILE_SIZE; y < (ty + 1) * TILE_SIZE - 1; y++) {
+        for (let x = tx * TILE_SIZE; x < (tx + 1) * TILE_SIZE - 1; x++) {
+          const i = y * width + x;
+          const gradient = Math.abs(data[i + 1] - data[i]) + Math.abs(data[i + width] - data[i]);
+          if (gradient > EDGE_THRESHOLD) edges++;
+        }
+      }
+      const density = edges / ((TILE_SIZE - 1) * (TILE_SIZE - 1));
+      if (density >= 0.04 && density <= 0.5) textTiles++;
+    }
+  }
+  return textTiles / (tilesX * tilesY);
+}
+
+/**
+ * Assess whether a photo is worth sending to OCR. `sample` should be a
+ * grayscale copy scaled to QUALITY_SAMPLE_SIZE; `original` is the photo's real size.
+ */
+export function assessImageQuality(
+  sample: GrayscaleSample,
+  original: { width: number; height: number }
+): ImageQualityReport {
+  const { brightness, clippedHighlights } = measureBrightness(sample);
+  const metrics: ImageQualityMetrics = {
+    sharpness: Math.round(measureSharpness(sample)),
+    brightness: Math.round(brightness),
+    clippedHighlights: Number(clippedHighlights.toFixed(3)),
+    textCoverage: Number(measureTextCoverage(sample).toFixed(3)),
+    width: original.width,
+    height: original.height
+  };
+
+  const warnings: ImageQualityWarning[] = [];
+  const shortSide = Math.min(original.width, original.height);
+
+  if (shortSide < 400) {
+    warnings.push({
+      code: 'low-resolution',
+      severity: shortSide < 150 ? 'error' : 'warning',
+      message: `The image is only ${original.width}×${original.height} pixels.`,
+      guidance: 'Use the original photo instead of a thumbnail or screenshot, or move closer to the sign.'
+    });
+  }
+
+  if (metrics.brightness < 60) {
+    warnings.push({
+      code: 'too-dark',
+      severity: metrics.brightness < 25 ? 'error' : 'warning',
+      message: 'The photo is very dark.',
+      guidance: 'Retake it in daylight or with the flash on, and avoid shooting into the light.'
+    });
+  } else if ((metrics.brightness > 235 || metrics.clippedHighlights > 0.5) && metrics.textCoverage < 0.03) {
+    // White cards and signs are bright too; only flag it when the glare has washed out the detail
+    warnings.push({
+      code: 'overexposed',
+      severity: 'warning',
+      message: 'The photo is washed out.',
+      guidance: 'Turn off the flash on glossy signs and step to the side to avoid glare.'
+    });
+  }
+
+  // A completely flat image has no detail to be blurry; the no-text check covers it
+  if (metrics.sharpness < 50 && metrics.sharpness >= 2) {
+    warnings.push({
+      code: 'blurry',
+      severity: metrics.sharpness < 12 ? 'error' : 'warning',
+      message: 'The photo looks blurry.',
+      guidance: 'Hold the phone steady, tap the sign to focus, and retake the photo.'
+    });
+  }
+
+  if (metrics.textCoverage < 0.01) {
+    warnings.push({
+      code: 'no-text',
+      // Only a featureless frame is certain; small or distant lettering can still be read
+      severity: metrics.textCoverage === 0 && metrics.sharpness < 12 ? 'error' : 'warning',
+      message: 'No readable text was found in the photo.',
+      guidance: 'Frame the business name, sign or card so the lettering fills most of the photo.'
+    });
+  }
+
+  return {
+    acceptable: !warnings.some(warning => warning.severity === 'error'),
+    metrics,
+    warnings
+  };
+}
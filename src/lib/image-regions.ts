@@ -0,0 +1,122 @@
+// src/lib/image-regions.ts
+// Shared by the region selector in the browser and the upload route
+
+// A rectangle drawn by the user, as fractions (0-1) of the image after rotation
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+// Clockwise rotation applied after the EXIF orientation, and the regions drawn on the rotated image
+export interface ImageAdjustments {
+  rotation: ImageRotation;
+  regions: ImageRegion[];
+}
+
+// 'crop' sends only the regions to OCR; 'weight' reads the whole photo but favours text inside them
+export type RegionMode = 'crop' | 'weight';
+
+export const REGION_MODES: RegionMode[] = ['crop', 'weight'];
+export const MAX_REGIONS_PER_IMAGE = 5;
+
+// Regions smaller than this share of either side are treated as accidental clicks
+export const MIN_REGION_SIZE = 0.02;
+
+export const NO_ADJUSTMENTS: ImageAdjustments = { rotation: 0, regions: [] };
+
+export interface RegionValidationError {
+  error: string;
+  status: number;
+}
+
+export function hasAdjustments(adjustments: ImageAdjustments | undefined): boolean {
+  return !!adjustments && (adjustments.rotation !== 0 || adjustments.regions.length > 0);
+}
+
+/**
+ * Map a region onto the image after a further 90° clockwise turn, so regions
+ * survive the user rotating the photo.
+ */
+export function rotateRegionClockwise(region: ImageRegion): ImageRegion {
+  return {
+    x: 1 - region.y - region.height,
+    y: region.x,
+    width: region.height,
+    height: region.width
+  };
+}
+
+/**
+ * Pixel rectangle of a region in an image of the given size, clamped to the image.
+ */
+export function regionToPixels(region: ImageRegion, width: number, height: number) {
+  const left = Math.min(width - 1, Math.max(0, Math.round(region.x * width)));
+  const top = Math.min(height - 1, Math.max(0, Math.round(region.y * height)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.round(region.width * width))),
+    height: Math.max(1, Math.min(height - top, Math.round(region.height * height)))
+  };
+}
+
+function isValidRegion(value: unknown): value is ImageRegion {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  if (typeof x !== 'number' || typeof y !== 'number' || typeof width !== 'number' || typeof height !== 'number') return false;
+  if (![x, y, width, height].every(Number.isFinite)) return false;
+  return x >= 0 && y >= 0 && width >= MIN_REGION_SIZE && height >= MIN_REGION_SIZE &&
+    x + width <= 1.0001 && y + height <= 1.0001;
+}
+
+/**
+ * Parse the `regions` form field: a JSON array with one `{ rotation, regions }`
+ * entry per uploaded image, in upload order.
+ */
+export function parseImageAdjustments(
+  raw: string | null,
+  imageCount: number
+): { adjustments: ImageAdjustments[] } | RegionValidationError {
+  if (!raw) {
+    return { adjustments: Array.from({ length: imageCount }, () => NO_ADJUSTMENTS) };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { error: 'Invalid regions: expected a JSON array.', status: 400 };
+  }
+
+  if (!Array.isArray(parsed) || parsed.length > imageCount) {
+    return { error: `Invalid regions: expected at most one entry per image (${imageCount}).`, status: 400 };
+  }
+
+  const adjustments: ImageAdjustments[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    const entry = parsed[i] ?? NO_ADJUSTMENTS;
+    const rotation = entry.rotation ?? 0;
+    const regions = entry.regions ?? [];
+
+    if (![0, 90, 180, 270].includes(rotation)) {
+      return { error: `Invalid rotation for image ${i + 1}. Use 0, 90, 180 or 270.`, status: 400 };
+    }
+    if (!Array.isArray(regions) || regions.length > MAX_REGIONS_PER_IMAGE) {
+      return { error: `Image ${i + 1} can have at most ${MAX_REGIONS_PER_IMAGE} regions.`, status: 400 };
+    }
+    if (!regions.every(isValidRegion)) {
+      return { error: `Invalid region for image ${i + 1}. Regions are fractions of the image between 0 and 1.`, status: 400 };
+    }
+
+    adjustments.push({
+      rotation,
+      regions: regions.map(({ x, y, width, height }: ImageRegion) => ({ x, y, width, height }))
+    });
+  }
+
+  return { adjustments };
+}
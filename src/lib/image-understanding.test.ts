@@ -0,0 +1,86 @@
+// src/lib/image-understanding.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applyImageUnderstanding, createStubUnderstandingProvider } from './image-understanding';
+import { ExtractedText } from './types';
+
+// What OCR read off a storefront before logos and labels are folded in
+const extracted: ExtractedText = {
+  businessNames: ["Joe's Barber Shop", 'Walk-ins Welcome'],
+  nameCandidates: [
+    { name: "Joe's Barber Shop", score: 60, strategy: 'positional', sourceLine: "JOE'S BARBER SHOP", lineNumbers: [1], components: { position: 60 } },
+    { name: 'Walk-ins Welcome', score: 20, strategy: 'pattern', sourceLine: 'WALK-INS WELCOME', lineNumbers: [3], components: { pattern: 20 } }
+  ],
+  addresses: [],
+  phoneNumbers: [],
+  websites: [],
+  emails: [],
+  otherText: [],
+  confidence: { businessName: 'High', address: 'Low', phone: 'Low' }
+};
+
+describe('createStubUnderstandingProvider', () => {
+  it('returns its fixture for every image', async () => {
+    const provider = createStubUnderstandingProvider({
+      logos: [{ description: 'Barbicide', score: 0.7 }],
+      labels: [{ description: 'Barber Shop', score: 0.9 }]
+    });
+
+    const first = await provider.analyze(Buffer.from('first'));
+    const second = await provider.analyze(Buffer.from('second'));
+    assert.deepEqual(first, second);
+    assert.equal(first.labels[0].description, 'Barber Shop');
+  });
+
+  it('reads its fixture from IMAGE_UNDERSTANDING_STUB', async () => {
+    process.env.IMAGE_UNDERSTANDING_STUB = '{"labels":[{"description":"Pizza","score":0.9}]}';
+    const understanding = await createStubUnderstandingProvider().analyze(Buffer.alloc(0));
+    delete process.env.IMAGE_UNDERSTANDING_STUB;
+
+    assert.deepEqual(understanding, { logos: [], labels: [{ description: 'Pizza', score: 0.9 }] });
+  });
+
+  it('ignores an IMAGE_UNDERSTANDING_STUB that is not a list of annotations', async () => {
+    for (const stub of ['not json', '[]', '{"labels":"Pizza"}', '{"logos":[{"description":"Joe\'s"}]}']) {
+      process.env.IMAGE_UNDERSTANDING_STUB = stub;
+      const understanding = await createStubUnderstandingProvider().analyze(Buffer.alloc(0));
+      assert.deepEqual(understanding, { logos: [], labels: [] }, stub);
+    }
+    delete process.env.IMAGE_UNDERSTANDING_STUB;
+  });
+});
+
+describe('applyImageUnderstanding', () => {
+  it('maps a "Barber Shop" label to Beauty & Personal Care', async () => {
+    const provider = createStubUnderstandingProvider({ logos: [], labels: [{ description: 'Barber Shop', score: 0.9 }] });
+    const result = applyImageUnderstanding(extracted, await provider.analyze(Buffer.alloc(0)));
+
+    assert.deepEqual(result.categoryHints, ['Beauty & Personal Care']);
+    assert.deepEqual(result.businessNames, extracted.businessNames);
+  });
+
+  it('confirms a name candidate with a matching logo and adds the others', async () => {
+    const provider = createStubUnderstandingProvider({
+      logos: [{ description: "JOE'S BARBER SHOP", score: 0.8 }, { description: 'Barbicide', score: 0.6 }],
+      labels: []
+    });
+    const result = applyImageUnderstanding(extracted, await provider.analyze(Buffer.alloc(0)));
+
+    assert.equal(result.nameCandidates![0].name, "Joe's Barber Shop");
+    assert.equal(result.nameCandidates![0].components.logo, 12);
+    assert.equal(result.nameCandidates![1].name, 'Barbicide');
+    assert.equal(result.nameCandidates![1].strategy, 'logo');
+  });
+
+  it('ignores weak detections', async () => {
+    const provider = createStubUnderstandingProvider({
+      logos: [{ description: 'Coca-Cola', score: 0.3 }],
+      labels: [{ description: 'Pizza', score: 0.4 }]
+    });
+    const result = applyImageUnderstanding(extracted, await provider.analyze(Buffer.alloc(0)));
+
+    assert.deepEqual(result.logos, []);
+    assert.deepEqual(result.categoryHints, []);
+    assert.equal(result.nameCandidates!.length, 2);
+  });
+});
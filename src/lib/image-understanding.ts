@@ -0,0 +1,192 @@
+// src/lib/image-understanding.ts
+import { protos } from '@google-cloud/vision';
+import { findIndustryByKeyword, foldKeywordText } from './keywords';
+import { getVisionClient, hasGoogleVisionCredentials } from './ocr';
+import { ExtractedText, ImageAnnotation, NameCandidate } from './types';
+
+export type ImageUnderstandingProviderName = 'google-vision' | 'stub';
+
+// What the photo shows beyond its text: brand logos and scene labels ("Pizza", "Barber chair")
+export interface ImageUnderstanding {
+  logos: ImageAnnotation[];
+  labels: ImageAnnotation[];
+}
+
+export interface ImageUnderstandingProvider {
+  name: ImageUnderstandingProviderName;
+  isConfigured(): boolean;
+  analyze(imageBuffer: Buffer): Promise<ImageUnderstanding>;
+}
+
+// Weaker detections are mostly noise (a red sign read as "Coca-Cola")
+const MIN_LOGO_SCORE = 0.5;
+const MIN_LABEL_SCORE = 0.6;
+
+// A recognized logo on its own scores like a strong OCR candidate (max 35 points)
+const LOGO_CANDIDATE_SCORE = 35;
+// A logo that agrees with an OCR candidate adds to its score (max 15 points)
+const LOGO_AGREEMENT_SCORE = 15;
+
+const toAnnotations = (annotations: protos.google.cloud.vision.v1.IEntityAnnotation[] | null | undefined): ImageAnnotation[] =>
+  (annotations || []).flatMap(({ description, score }) => description ? [{ description, score: score || 0 }] : []);
+
+// ---------------------------------------------------------------------------
+// Google Cloud Vision
+// ---------------------------------------------------------------------------
+
+const googleVisionUnderstandingProvider: ImageUnderstandingProvider = {
+  name: 'google-vision',
+
+  isConfigured: hasGoogleVisionCredentials,
+
+  async analyze(imageBuffer: Buffer): Promise<ImageUnderstanding> {
+    // One request for both features, billed as two units
+    const [result] = await getVisionClient().annotateImage({
+      image: { content: imageBuffer },
+      features: [
+        { type: 'LOGO_DETECTION', maxResults: 5 },
+        { type: 'LABEL_DETECTION', maxResults: 15 }
+      ]
+    });
+
+    const understanding = {
+      logos: toAnnotations(result.logoAnnotations),
+      labels: toAnnotations(result.labelAnnotations)
+    };
+    console.log(`🏷️ Google Vision returned ${understanding.logos.length} logos and ${understanding.labels.length} labels`);
+    return understanding;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Local stub
+// ---------------------------------------------------------------------------
+
+function isValidAnnotation(value: unknown): value is ImageAnnotation {
+  if (!value || typeof value !== 'object') return false;
+  const { description, score } = value as Record<string, unknown>;
+  return typeof description === 'string' && description.length > 0 &&
+    typeof score === 'number' && score >= 0 && score <= 1;
+}
+
+// Missing lists are empty; a list that is present must hold only valid annotations
+const isValidAnnotationList = (value: unknown): value is ImageAnnotation[] | undefined =>
+  value === undefined || (Array.isArray(value) && value.every(isValidAnnotation));
+
+function stubFixtureFromEnv(): ImageUnderstanding {
+  const raw = process.env.IMAGE_UNDERSTANDING_STUB;
+  if (!raw) return { logos: [], labels: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.warn('⚠️ Ignoring invalid IMAGE_UNDERSTANDING_STUB:', error instanceof Error ? error.message : error);
+    return { logos: [], labels: [] };
+  }
+
+  const fixture = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  const { logos, labels } = fixture || {};
+  if (!fixture || !isValidAnnotationList(logos) || !isValidAnnotationList(labels)) {
+    console.warn('⚠️ Ignoring IMAGE_UNDERSTANDING_STUB: expected {"logos": [...], "labels": [...]} with a description and a 0-1 score in each');
+    return { logos: [], labels: [] };
+  }
+  return {
+    logos: (logos || []).map(({ description, score }) => ({ description, score })),
+    labels: (labels || []).map(({ description, score }) => ({ description, score }))
+  };
+}
+
+/**
+ * Offline provider that returns the same logos and labels for every image, so
+ * tests and local runs are deterministic. The fixture defaults to the JSON in
+ * IMAGE_UNDERSTANDING_STUB, e.g. {"labels":[{"description":"Pizza","score":0.9}]}.
+ */
+export function createStubUnderstandingProvider(fixture: ImageUnderstanding = stubFixtureFromEnv()): ImageUnderstandingProvider {
+  return {
+    name: 'stub',
+    isConfigured: () => true,
+    async analyze(): Promise<ImageUnderstanding> {
+      return {
+        logos: fixture.logos.map(logo => ({ ...logo })),
+        labels: fixture.labels.map(label => ({ ...label }))
+      };
+    }
+  };
+}
+
+/**
+ * Resolve the optional image-understanding provider from IMAGE_UNDERSTANDING_PROVIDER
+ * ('google-vision' | 'stub'). Returns null when unset, which skips the pass.
+ */
+export function getImageUnderstandingProvider(
+  name: string | undefined = process.env.IMAGE_UNDERSTANDING_PROVIDER
+): ImageUnderstandingProvider | null {
+  if (!name) return null;
+
+  switch (name as ImageUnderstandingProviderName) {
+    case 'google-vision':
+      return googleVisionUnderstandingProvider;
+    case 'stub':
+      return createStubUnderstandingProvider();
+    default:
+      throw new Error(`Unknown image understanding provider "${name}". Expected one of: google-vision, stub`);
+  }
+}
+
+const normalizeName = (name: string) => foldKeywordText(name).replace(/[^a-z0-9]/g, '');
+
+/**
+ * Fold logos and labels into an image's extraction: logos become (or confirm)
+ * name candidates, and logos and labels that match an industry keyword become
+ * category hints for categorizeBusinessIndustry.
+ */
+export function applyImageUnderstanding(extracted: ExtractedText, understanding: ImageUnderstanding): ExtractedText {
+  const logos = understanding.logos.filter(logo => logo.score >= MIN_LOGO_SCORE);
+  const labels = understanding.labels.filter(label => label.score >= MIN_LABEL_SCORE);
+
+  const nameCandidates: NameCandidate[] = (extracted.nameCandidates || []).map(candidate => ({
+    ...candidate,
+    components: { ...candidate.components }
+  }));
+
+  logos.forEach(logo => {
+    const existing = nameCandidates.find(candidate => normalizeName(candidate.name) === normalizeName(logo.description));
+    if (existing) {
+      const bonus = logo.score * LOGO_AGREEMENT_SCORE;
+      existing.score += bonus;
+      existing.components.logo = bonus;
+      console.log(`   🏷️ Logo "${logo.description}" confirms candidate "${existing.name}" (+${bonus.toFixed(1)})`);
+    } else {
+      const score = logo.score * LOGO_CANDIDATE_SCORE;
+      nameCandidates.push({
+        name: logo.description,
+        score,
+        strategy: 'logo',
+        sourceLine: `Logo: ${logo.description}`,
+        lineNumbers: [],
+        components: { logo: score }
+      });
+      console.log(`   🏷️ Logo "${logo.description}" added as a name candidate (${score.toFixed(1)})`);
+    }
+  });
+  nameCandidates.sort((a, b) => b.score - a.score);
+
+  const categoryHints = [...logos, ...labels]
+    .sort((a, b) => b.score - a.score)
+    .map(annotation => findIndustryByKeyword(annotation.description))
+    .filter((category, index, all): category is string => !!category && all.indexOf(category) === index);
+
+  if (categoryHints.length > 0) {
+    console.log(`   🏷️ Category hints from the image: ${categoryHints.join(', ')}`);
+  }
+
+  return {
+    ...extracted,
+    businessNames: logos.length > 0 ? nameCandidates.slice(0, 3).map(candidate => candidate.name) : extracted.businessNames,
+    nameCandidates,
+    logos,
+    labels,
+    categoryHints
+  };
+}
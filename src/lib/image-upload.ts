@@ -0,0 +1,144 @@
+// src/lib/image-upload.ts
+import { unzipSync } from 'fflate';
+import { isHeicImage } from './image-normalization';
+import { MAX_IMAGE_SIZE, MAX_IMAGES_PER_BUSINESS } from './upload-limits';
+
+export { MAX_IMAGE_SIZE, MAX_IMAGES_PER_BUSINESS };
+
+// Everything here is converted to JPEG by normalizeImage before OCR
+export const ALLOWED_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'image/avif',
+  'image/tiff'
+];
+
+// A street survey: one photo per storefront, sent as files or as a ZIP
+export const MAX_BATCH_IMAGES = 100;
+export const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024; // 200MB
+
+// What the images in a batch's archives may add up to once inflated, by their declared sizes
+export const MAX_BATCH_UNPACKED_SIZE = 500 * 1024 * 1024; // 500MB
+
+const ARCHIVE_TYPES = ['application/zip', 'application/x-zip-compressed', 'multipart/x-zip'];
+
+// ZIP entries carry no MIME type, so it comes from the extension
+const IMAGE_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  avif: 'image/avif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff'
+};
+
+export interface ImageValidationError {
+  error: string;
+  status: number;
+}
+
+/**
+ * Read the uploaded images from a multipart form. Accepts several `images`
+ * fields as well as the original single `image` field.
+ */
+export function getUploadedImages(formData: FormData): File[] {
+  return [...formData.getAll('images'), ...formData.getAll('image')]
+    .filter((entry): entry is File => typeof entry !== 'string');
+}
+
+export function validateImageFile(file: File): ImageValidationError | null {
+  // Validate file type and size. Some browsers send HEIC photos without a MIME type.
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type) && !isHeicImage(file.type, file.name)) {
+    return {
+      error: `Invalid file type for ${file.name}. Supported formats are JPEG, PNG, WebP, HEIC, AVIF and TIFF.`,
+      status: 400
+    };
+  }
+
+  if (file.size > MAX_IMAGE_SIZE) {
+    return {
+      error: `File ${file.name} is too large. Maximum size is 25MB.`,
+      status: 400
+    };
+  }
+
+  return null;
+}
+
+export function isZipArchive(file: File): boolean {
+  return ARCHIVE_TYPES.includes(file.type) || file.name.toLowerCase().endsWith('.zip');
+}
+
+export interface ZipListing {
+  archive: File;
+  imageNames: Set<string>; // Entries that unpackZipImages will inflate
+  skipped: string[];
+  unpackedSize: number;    // Declared size of those entries once inflated
+}
+
+const readZipError = (archive: File, error: unknown): ImageValidationError => ({
+  error: `Could not read ${archive.name} as a ZIP archive: ${error instanceof Error ? error.message : error}`,
+  status: 400
+});
+
+/**
+ * List the images in an uploaded ZIP without inflating any of them, so the
+ * batch limits can be checked across every archive first. Folders, macOS
+ * resource forks and files that are not images are skipped, and so are
+ * images over MAX_IMAGE_SIZE by their declared size.
+ */
+export async function listZipImages(archive: File): Promise<ZipListing | ImageValidationError> {
+  if (archive.size > MAX_ARCHIVE_SIZE) {
+    return { error: `Archive ${archive.name} is too large. Maximum size is 200MB.`, status: 400 };
+  }
+
+  const listing: ZipListing = { archive, imageNames: new Set(), skipped: [], unpackedSize: 0 };
+  try {
+    // A filter that accepts nothing reads the central directory only
+    unzipSync(new Uint8Array(await archive.arrayBuffer()), {
+      filter: entry => {
+        const baseName = entry.name.split('/').pop() || '';
+        if (entry.name.endsWith('/') || entry.name.startsWith('__MACOSX/') || baseName.startsWith('.')) return false;
+
+        const extension = baseName.split('.').pop()?.toLowerCase() || '';
+        if (!IMAGE_TYPES_BY_EXTENSION[extension] || entry.originalSize > MAX_IMAGE_SIZE) {
+          listing.skipped.push(entry.name);
+        } else {
+          listing.imageNames.add(entry.name);
+          listing.unpackedSize += entry.originalSize;
+        }
+        return false;
+      }
+    });
+  } catch (error) {
+    return readZipError(archive, error);
+  }
+  return listing;
+}
+
+/**
+ * Inflate the images a listing accepted, in archive order. Each image is
+ * returned as a File named by its path inside the archive.
+ */
+export async function unpackZipImages(listing: ZipListing): Promise<File[] | ImageValidationError> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await listing.archive.arrayBuffer()), {
+      filter: entry => listing.imageNames.has(entry.name)
+    });
+  } catch (error) {
+    return readZipError(listing.archive, error);
+  }
+
+  return Object.entries(entries).map(([name, bytes]) => {
+    const extension = name.split('.').pop()!.toLowerCase();
+    return new File([Buffer.from(bytes)], name, { type: IMAGE_TYPES_BY_EXTENSION[extension] });
+  });
+}
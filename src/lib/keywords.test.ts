@@ -0,0 +1,25 @@
+// src/lib/keywords.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { containsKeywordWords, findNameKeyword } from './keywords';
+
+describe('findNameKeyword', () => {
+  it('matches keywords as whole words only', () => {
+    assert.equal(findNameKeyword("Barbara's Bakery"), null);
+    assert.equal(findNameKeyword('Barbería El Güero'), null);
+    assert.equal(findNameKeyword('Cafetal Lopez'), null);
+    assert.equal(findNameKeyword('Corner Bar')?.phrase, 'bar');
+  });
+
+  it('folds accents and punctuation', () => {
+    assert.equal(findNameKeyword('CAFÉ-LOPEZ')?.phrase, 'cafe');
+  });
+});
+
+describe('containsKeywordWords', () => {
+  it('finds the words of a phrase split across OCR lines', () => {
+    const foodPark = { phrase: 'food park', points: 5, locale: 'en' };
+    assert.equal(containsKeywordWords('FOOD\nPARK', foodPark), true);
+    assert.equal(containsKeywordWords('SEAFOOD PARKING', foodPark), false);
+  });
+});
@@ -0,0 +1,171 @@
+// src/lib/keywords.ts
+import { readFileSync } from 'fs';
+import defaultDictionary from '../data/business-keywords.json';
+
+// Bump together with "version" in src/data/business-keywords.json when the shape changes
+const DICTIONARY_VERSION = 1;
+
+/**
+ * Business keyword dictionary. `nameKeywords` maps locale → phrase → points
+ * added to a business name containing the phrase. `industries` maps a
+ * category → locale → keywords; the longest keyword found decides, then file order.
+ */
+export interface KeywordDictionary {
+  version: number;
+  nameKeywords: Record<string, Record<string, number>>;
+  industries: Record<string, Record<string, string[]>>;
+}
+
+export interface NameKeyword {
+  phrase: string; // Accent-folded, lowercase
+  points: number;
+  locale: string;
+}
+
+interface LoadedKeywords {
+  version: number;
+  locales: string[];
+  nameKeywords: NameKeyword[];
+  industries: { category: string; keywords: string[] }[];
+}
+
+let cached: LoadedKeywords | null = null;
+
+/**
+ * Lowercase and strip diacritics so "Café", "CAFE" and "cafe" compare equal.
+ */
+export function foldKeywordText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Per-deployment overrides from BUSINESS_KEYWORDS_FILE, a JSON file with the
+ * same shape. Name keyword points replace the defaults (0 removes a phrase),
+ * industry keywords are added to the defaults, and new categories are checked last.
+ */
+function loadOverrides(): Partial<KeywordDictionary> | null {
+  const path = process.env.BUSINESS_KEYWORDS_FILE;
+  if (!path) return null;
+
+  try {
+    const overrides = JSON.parse(readFileSync(path, 'utf8')) as Partial<KeywordDictionary>;
+    if (overrides.version !== DICTIONARY_VERSION) {
+      console.warn(`⚠️ Ignoring keyword overrides in ${path}: version ${overrides.version}, expected ${DICTIONARY_VERSION}`);
+      return null;
+    }
+    console.log(`📚 Loaded keyword overrides from ${path}`);
+    return overrides;
+  } catch (error) {
+    console.warn(`⚠️ Could not read keyword overrides from ${path}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function mergeDictionaries(base: KeywordDictionary, overrides: Partial<KeywordDictionary> | null): KeywordDictionary {
+  const merged: KeywordDictionary = {
+    version: base.version,
+    nameKeywords: Object.fromEntries(Object.entries(base.nameKeywords).map(([locale, phrases]) => [locale, { ...phrases }])),
+    industries: Object.fromEntries(Object.entries(base.industries).map(([category, locales]) => [category, { ...locales }]))
+  };
+  if (!overrides) return merged;
+
+  for (const [locale, phrases] of Object.entries(overrides.nameKeywords || {})) {
+    merged.nameKeywords[locale] = { ...merged.nameKeywords[locale], ...phrases };
+  }
+  for (const [category, locales] of Object.entries(overrides.industries || {})) {
+    const existing = merged.industries[category] || {};
+    for (const [locale, keywords] of Object.entries(locales)) {
+      existing[locale] = [...(existing[locale] || []), ...keywords];
+    }
+    merged.industries[category] = existing;
+  }
+  return merged;
+}
+
+/**
+ * Load the dictionary once per process. BUSINESS_KEYWORD_LOCALES (e.g. "en,es")
+ * limits matching to those locales; by default every locale in the file is used.
+ */
+export function getBusinessKeywords(): LoadedKeywords {
+  if (cached) return cached;
+
+  const dictionary = mergeDictionaries(defaultDictionary as KeywordDictionary, loadOverrides());
+  const configuredLocales = process.env.BUSINESS_KEYWORD_LOCALES
+    ?.split(',').map(locale => locale.trim().toLowerCase()).filter(Boolean);
+  const isEnabledLocale = (locale: string) => !configuredLocales || configuredLocales.includes(locale);
+
+  // The same word can appear in several locales ("farmacia"); keep its highest score
+  const byPhrase = new Map<string, NameKeyword>();
+  for (const [locale, phrases] of Object.entries(dictionary.nameKeywords)) {
+    if (!isEnabledLocale(locale)) continue;
+    for (const [phrase, points] of Object.entries(phrases)) {
+      const folded = foldKeywordText(phrase);
+      const existing = byPhrase.get(folded);
+      if (!existing || points > existing.points) byPhrase.set(folded, { phrase: folded, points, locale });
+    }
+  }
+
+  const nameKeywords = [...byPhrase.values()]
+    .filter(keyword => keyword.points > 0)
+    // Highest points first; longer phrases first so "coffee shop" beats "coffee"
+    .sort((a, b) => b.points - a.points || b.phrase.length - a.phrase.length);
+
+  const industries = Object.entries(dictionary.industries).map(([category, locales]) => ({
+    category,
+    keywords: [...new Set(
+      Object.entries(locales)
+        .filter(([locale]) => isEnabledLocale(locale))
+        .flatMap(([, keywords]) => keywords.map(foldKeywordText))
+    )]
+  }));
+
+  const locales = Object.keys(dictionary.nameKeywords).filter(isEnabledLocale);
+  console.log(`📚 Business keywords v${dictionary.version}: ${nameKeywords.length} name keywords, ${industries.length} industries (${locales.join(', ')})`);
+
+  cached = { version: dictionary.version, locales, nameKeywords, industries };
+  return cached;
+}
+
+/**
+ * Folded text with every run of punctuation and spaces turned into one space and
+ * padded at both ends, so ` ${keyword} ` only matches whole words: "bar" is not
+ * found in "Barbara's Bakery", nor "spa" in "Spanish Books".
+ */
+function toWordText(text: string): string {
+  return ` ${foldKeywordText(text).replace(/[^\p{L}\p{N}]+/gu, ' ')} `;
+}
+
+/**
+ * The highest-scoring name keyword in the text, if any, matched as whole words.
+ */
+export function findNameKeyword(text: string): NameKeyword | null {
+  const words = toWordText(text);
+  return getBusinessKeywords().nameKeywords.find(keyword => words.includes(` ${keyword.phrase} `)) || null;
+}
+
+/**
+ * Whether every word of a keyword phrase appears as a whole word in the text,
+ * in any order and possibly split across OCR lines ("FOOD" / "PARK").
+ */
+export function containsKeywordWords(text: string, keyword: NameKeyword): boolean {
+  const words = toWordText(text);
+  return keyword.phrase.split(' ').every(word => words.includes(` ${word} `));
+}
+
+/**
+ * Industry category of the longest keyword in the text, matched as whole words,
+ * so "barber" beats "shop" in "Barber Shop"; ties go to dictionary order.
+ */
+export function findIndustryByKeyword(text: string): string | null {
+  const words = toWordText(text);
+
+  let best: { category: string; keyword: string } | null = null;
+  for (const industry of getBusinessKeywords().industries) {
+    for (const keyword of industry.keywords) {
+      if ((!best || keyword.length > best.keyword.length) && words.includes(` ${keyword} `)) {
+        best = { category: industry.category, keyword };
+      }
+    }
+  }
+  return best?.category || null;
+}
@@ -0,0 +1,104 @@
+// src/lib/location-score.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import downtown from './__fixtures__/nearby-search/downtown.json';
+import rural from './__fixtures__/nearby-search/rural.json';
+import { scoreLocation } from './location-score';
+import { PlacesApiName, PlacesClient } from './places-client';
+import { GeoPoint, PlacesResult } from './types';
+
+// Nearby searches recorded around one point with each Places API, keyed by the types sent, joined with commas
+interface NearbySearchFixture {
+  center: GeoPoint;
+  legacy: Record<string, PlacesResult[]>;
+  new: Record<string, PlacesResult[]>;
+}
+
+// Replays the recorded responses and counts the requests; a search that was not recorded fails like a Places error would
+function createRecordedPlacesClient(fixture: NearbySearchFixture, name: PlacesApiName) {
+  const requests: string[] = [];
+  const client: PlacesClient = {
+    name,
+    isConfigured: () => true,
+    searchText: async () => {
+      throw new Error('Text search is not recorded');
+    },
+    searchNearby: async ({ types }) => {
+      requests.push(types.join(','));
+      const recorded = fixture[name][types.join(',')];
+      if (!recorded) throw new Error(`No recorded nearby search for ${types.join(',')}`);
+      return recorded;
+    },
+    getDetails: async () => null
+  };
+  return { client, requests };
+}
+
+describe('scoreLocation', () => {
+  it('searches every anchor type at once on the Places API (New)', async () => {
+    const { client, requests } = createRecordedPlacesClient(downtown, 'new');
+    const score = await scoreLocation(downtown.center, client);
+
+    assert.equal(requests.length, 1);
+    assert.ok(score);
+    assert.equal(score.score, 70);
+    assert.equal(score.quality, 'excellent');
+  });
+
+  it('counts only open places within each radius', async () => {
+    const { client } = createRecordedPlacesClient(downtown, 'new');
+    const score = await scoreLocation(downtown.center, client);
+    const anchors = Object.fromEntries(score!.anchors.map(anchor => [anchor.key, anchor]));
+
+    // The fifth station is 650 m away and the second supermarket has closed
+    assert.equal(anchors.transit.count, 4);
+    assert.equal(anchors.transit.points, 30);
+    assert.equal(anchors.grocery.count, 1);
+    assert.equal(anchors.grocery.label, 'supermarket');
+    assert.equal(anchors.offices.count, 9);
+    assert.equal(anchors.offices.points, 20);
+    assert.equal(anchors.shopping.count, 0);
+  });
+
+  it('searches one type per category on the legacy API and scores the searches that succeeded', async () => {
+    const { client, requests } = createRecordedPlacesClient(downtown, 'legacy');
+    const score = await scoreLocation(downtown.center, client);
+
+    assert.deepEqual(requests.sort(), ['bank', 'school', 'shopping_mall', 'supermarket', 'transit_station']);
+    assert.ok(score);
+    assert.equal(score.score, 65);
+    assert.equal(score.quality, 'good');
+    // The shopping search was not recorded, so it failed and is left out
+    assert.deepEqual(score.anchors.map(anchor => anchor.key), ['transit', 'grocery', 'offices', 'schools']);
+  });
+
+  it('explains a rural road by what is missing', async () => {
+    for (const name of ['legacy', 'new'] as const) {
+      const score = await scoreLocation(rural.center, createRecordedPlacesClient(rural, name).client);
+
+      assert.ok(score);
+      assert.equal(score.score, 18);
+      assert.equal(score.quality, 'poor');
+      assert.equal(
+        score.explanation,
+        '1 supermarket (nearest 610 m), 1 school (nearest 720 m), 1 office or bank (nearest 320 m) nearby; ' +
+        'no transit stations within 500 m or shopping centres within 800 m'
+      );
+    }
+  });
+
+  it('reuses the score for the same location', async () => {
+    const { client, requests } = createRecordedPlacesClient(rural, 'legacy');
+    const first = await scoreLocation(rural.center, client);
+    const second = await scoreLocation({ lat: rural.center.lat + 0.00001, lng: rural.center.lng }, client);
+
+    assert.equal(requests.length, 5);
+    assert.equal(second, first);
+  });
+
+  it('returns null when every search fails', async () => {
+    const empty = { center: rural.center, legacy: {}, new: {} };
+    assert.equal(await scoreLocation(rural.center, createRecordedPlacesClient(empty, 'legacy').client), null);
+    assert.equal(await scoreLocation(rural.center, createRecordedPlacesClient(empty, 'new').client), null);
+  });
+});
@@ -0,0 +1,173 @@
+// src/lib/location-score.ts
+import { distanceInMeters, formatDistance } from './geo';
+import { getPlacesClient, PlacesClient } from './places-client';
+import { GeoPoint, PlacesResult } from './types';
+
+export type LocationQuality = 'poor' | 'average' | 'good' | 'excellent';
+
+// Places nearby that bring people past the door
+interface AnchorCategory {
+  key: string;
+  label: string;          // Plural, as used in the explanation
+  singular: string;
+  types: string[];        // Legacy type names, so both Places APIs accept them; the legacy API searches the first only
+  radiusMeters: number;   // How far people walk from this kind of place
+  weight: number;         // Points for a fully served category; the weights add up to 100
+  saturation: number;     // Places after which more of them add nothing
+}
+
+// One score costs 1 Nearby Search on the Places API (New), which takes every type in one request, or
+// 5 on the legacy API, which takes a single type per request and so searches one per category
+const ANCHOR_CATEGORIES: AnchorCategory[] = [
+  { key: 'transit', label: 'transit stations', singular: 'transit station', types: ['transit_station'], radiusMeters: 500, weight: 30, saturation: 3 },
+  { key: 'grocery', label: 'supermarkets', singular: 'supermarket', types: ['supermarket'], radiusMeters: 800, weight: 20, saturation: 2 },
+  { key: 'offices', label: 'offices and banks', singular: 'office or bank', types: ['bank', 'lawyer', 'accounting', 'insurance_agency'], radiusMeters: 500, weight: 20, saturation: 8 },
+  { key: 'schools', label: 'schools', singular: 'school', types: ['school', 'university'], radiusMeters: 800, weight: 15, saturation: 3 },
+  { key: 'shopping', label: 'shopping centres', singular: 'shopping centre', types: ['shopping_mall', 'department_store'], radiusMeters: 800, weight: 15, saturation: 2 }
+];
+
+const ANCHOR_TYPES = [...new Set(ANCHOR_CATEGORIES.flatMap(category => category.types))];
+const MAX_ANCHOR_RADIUS_METERS = Math.max(...ANCHOR_CATEGORIES.map(category => category.radiusMeters));
+
+// Scores are kept per client and position rounded to about 10 m, so re-running a business reuses its searches
+const SCORE_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHED_SCORES = 200;
+const scoreCache = new WeakMap<PlacesClient, Map<string, { score: LocationScore; createdAt: number }>>();
+
+// Score from which each quality applies, highest first
+const QUALITY_THRESHOLDS: [LocationQuality, number][] = [
+  ['excellent', 70],
+  ['good', 45],
+  ['average', 20],
+  ['poor', 0]
+];
+
+export interface AnchorCount {
+  key: string;
+  label: string; // Worded for the count: "1 school", "3 schools"
+  radiusMeters: number;
+  count: number;
+  nearestMeters?: number;
+  points: number;
+}
+
+export interface LocationScore {
+  score: number; // 0-100
+  quality: LocationQuality;
+  anchors: AnchorCount[]; // Categories whose search failed are left out
+  explanation: string;
+}
+
+function qualityForScore(score: number): LocationQuality {
+  return QUALITY_THRESHOLDS.find(([, threshold]) => score >= threshold)![0];
+}
+
+// The places around the center per category key; categories whose search failed are missing
+async function searchAnchors(center: GeoPoint, client: PlacesClient): Promise<Map<string, PlacesResult[]>> {
+  const found = new Map<string, PlacesResult[]>();
+
+  if (client.name === 'new') {
+    try {
+      // Nearest first, so the 20-result cap drops the places least likely to count
+      const places = await client.searchNearby({ center, radiusMeters: MAX_ANCHOR_RADIUS_METERS, types: ANCHOR_TYPES, rankByDistance: true });
+      ANCHOR_CATEGORIES.forEach(category => {
+        found.set(category.key, places.filter(place => place.types?.some(type => category.types.includes(type))));
+      });
+    } catch (error) {
+      console.error('❌ Nearby anchor search failed:', error instanceof Error ? error.message : error);
+    }
+    return found;
+  }
+
+  await Promise.all(ANCHOR_CATEGORIES.map(async category => {
+    try {
+      found.set(category.key, await client.searchNearby({ center, radiusMeters: category.radiusMeters, types: [category.types[0]] }));
+    } catch (error) {
+      console.error(`❌ Nearby ${category.label} search failed:`, error instanceof Error ? error.message : error);
+    }
+  }));
+  return found;
+}
+
+function countAnchors(center: GeoPoint, category: AnchorCategory, places: PlacesResult[]): AnchorCount {
+  const distances = places
+    .filter(place => place.business_status !== 'CLOSED_PERMANENTLY' && place.geometry?.location)
+    .map(place => distanceInMeters(center, place.geometry!.location))
+    .filter(distance => distance <= category.radiusMeters);
+
+  return {
+    key: category.key,
+    label: distances.length === 1 ? category.singular : category.label,
+    radiusMeters: category.radiusMeters,
+    count: distances.length,
+    nearestMeters: distances.length > 0 ? Math.round(Math.min(...distances)) : undefined,
+    points: Math.round(category.weight * Math.min(distances.length, category.saturation) / category.saturation)
+  };
+}
+
+// "3 transit stations (nearest 120 m), 1 supermarket nearby; no schools within 800 m"
+function explain(anchors: AnchorCount[]): string {
+  const present = anchors
+    .filter(anchor => anchor.count > 0)
+    .sort((a, b) => b.points - a.points)
+    .map(anchor => `${anchor.count} ${anchor.label}${anchor.nearestMeters !== undefined ? ` (nearest ${formatDistance(anchor.nearestMeters)})` : ''}`);
+  const missing = anchors
+    .filter(anchor => anchor.count === 0)
+    .map(anchor => `${anchor.label} within ${formatDistance(anchor.radiusMeters)}`);
+
+  const parts = [];
+  if (present.length > 0) parts.push(`${present.join(', ')} nearby`);
+  if (missing.length > 0) parts.push(`no ${missing.join(' or ')}`);
+  return parts.join('; ');
+}
+
+/**
+ * Score a location 0-100 as a foot-traffic proxy, from the transit stations,
+ * supermarkets, offices, schools and shopping centres around it. Pass a client
+ * to replay recorded responses. Returns null when every search fails; scores
+ * are cached for a day.
+ */
+export async function scoreLocation(
+  center: GeoPoint,
+  client: PlacesClient = getPlacesClient()
+): Promise<LocationScore | null> {
+  if (!client.isConfigured()) return null;
+
+  const cached = scoreCache.get(client) || new Map<string, { score: LocationScore; createdAt: number }>();
+  scoreCache.set(client, cached);
+  const cacheKey = `${center.lat.toFixed(4)},${center.lng.toFixed(4)}`;
+  const hit = cached.get(cacheKey);
+  if (hit && Date.now() - hit.createdAt <= SCORE_CACHE_TTL_MS) {
+    console.log(`🚉 Reusing location score for ${cacheKey}`);
+    return hit.score;
+  }
+
+  console.log(`🚉 Scoring location ${center.lat.toFixed(5)}, ${center.lng.toFixed(5)} by nearby anchors (${client.name})`);
+  const found = await searchAnchors(center, client);
+  const anchors = ANCHOR_CATEGORIES
+    .filter(category => found.has(category.key))
+    .map(category => countAnchors(center, category, found.get(category.key)!));
+  if (anchors.length === 0) return null;
+
+  // Categories that could not be searched are scored on the ones that could
+  const possible = ANCHOR_CATEGORIES
+    .filter(category => anchors.some(anchor => anchor.key === category.key))
+    .reduce((sum, category) => sum + category.weight, 0);
+  const score = Math.round(anchors.reduce((sum, anchor) => sum + anchor.points, 0) / possible * 100);
+
+  const locationScore: LocationScore = {
+    score,
+    quality: qualityForScore(score),
+    anchors,
+    explanation: explain(anchors)
+  };
+  console.log(`🚉 Location score ${score}/100 (${locationScore.quality}): ${locationScore.explanation}`);
+
+  // Insertion order doubles as age order for eviction
+  cached.delete(cacheKey);
+  cached.set(cacheKey, { score: locationScore, createdAt: Date.now() });
+  while (cached.size > MAX_CACHED_SCORES) {
+    cached.delete(cached.keys().next().value!);
+  }
+  return locationScore;
+}
@@ -0,0 +1,116 @@
+// src/lib/menu.ts
+import { isDayGroup } from './hours';
+import { ExtractedText, PriceList, PriceListItem } from './types';
+
+// Fewer priced lines than this is a sign with a deal on it, not a menu or price board
+const MIN_PRICE_LIST_ITEMS = 3;
+
+// Share of the cheapest and dearest items left out of the average (add-ons, party platters),
+// at least one from each end once a list has MIN_ITEMS_TO_TRIM items
+const TRIM_SHARE = 0.1;
+const MIN_ITEMS_TO_TRIM = 5;
+
+// A typical order is a main plus a drink or side
+const ITEMS_PER_TICKET = 2;
+
+const CURRENCY_SYMBOLS = '$€£¥₩₽₹';
+
+// "Latte ....... 4.50", "Cappuccino €3,20", "Bibimbap 12,000₩"
+const TRAILING_PRICE_REGEX = new RegExp(
+  `^(.*?)[\\s.·…_:-]*([${CURRENCY_SYMBOLS}]?)\\s?(\\d{1,3}(?:[.,]\\d{3})*(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)\\s?([${CURRENCY_SYMBOLS}]?)\\s*$`,
+  'u'
+);
+
+// A price on its own line, under the item it belongs to
+const PRICE_ONLY_REGEX = new RegExp(
+  `^\\s*([${CURRENCY_SYMBOLS}]?)\\s?(\\d+(?:[.,]\\d{1,2})?)\\s?([${CURRENCY_SYMBOLS}]?)\\s*$`,
+  'u'
+);
+
+/**
+ * Read a price as written: "4.50" and "4,50" are decimals, "12,000" and
+ * "1.200" are thousands.
+ */
+function parsePrice(text: string): number {
+  if (/^\d{1,3}([.,]\d{3})+$/.test(text)) return Number(text.replace(/[.,]/g, ''));
+  return Number(text.replace(',', '.'));
+}
+
+// Without a currency symbol, only "4.50"-style prices count; bare numbers are sizes, years and hours
+const looksLikePrice = (amount: string, currency: string) => !!currency || /[.,]\d{2}$/.test(amount);
+
+// Item names are words; "Mon-Fri 9.00-17.30" leaves "Mon-Fri 9.00", which ends in a digit, and "Sat 10.00" leaves a day
+const isItemName = (name: string) => /\p{L}{2}/u.test(name) && /[\p{L})]$/u.test(name) && !isDayGroup(name);
+
+/**
+ * Item/price pairs in OCR lines from a menu or price board. Lines are expected
+ * without phone numbers, so phone digits are not read as prices.
+ */
+export function parsePriceLines(lines: string[]): PriceListItem[] {
+  const items: PriceListItem[] = [];
+  let pendingName: string | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const priceOnly = line.match(PRICE_ONLY_REGEX);
+    if (priceOnly) {
+      const currency = priceOnly[1] || priceOnly[3];
+      if (pendingName && looksLikePrice(priceOnly[2], currency)) {
+        items.push({ name: pendingName, price: parsePrice(priceOnly[2]), ...(currency ? { currency } : {}), line: `${pendingName} ${line}` });
+      }
+      pendingName = null;
+      continue;
+    }
+
+    const match = line.match(TRAILING_PRICE_REGEX);
+    const name = match?.[1].trim() || '';
+    const currency = match ? match[2] || match[4] : '';
+    if (match && isItemName(name) && looksLikePrice(match[3], currency)) {
+      items.push({ name, price: parsePrice(match[3]), ...(currency ? { currency } : {}), line });
+      pendingName = null;
+    } else {
+      pendingName = isItemName(line) ? line : null;
+    }
+  }
+
+  return items.filter(item => item.price > 0);
+}
+
+function mostCommonCurrency(items: PriceListItem[]): string | undefined {
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    if (item.currency) counts.set(item.currency, (counts.get(item.currency) || 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Summarize priced items into a price list with an average item price and an
+ * estimated average ticket. Returns null when there are too few items to call
+ * it a menu.
+ */
+export function summarizePriceList(items: PriceListItem[]): PriceList | null {
+  if (items.length < MIN_PRICE_LIST_ITEMS) return null;
+
+  const prices = items.map(item => item.price).sort((a, b) => a - b);
+  const trim = prices.length >= MIN_ITEMS_TO_TRIM ? Math.max(1, Math.floor(prices.length * TRIM_SHARE)) : 0;
+  const kept = prices.slice(trim, prices.length - trim);
+  const averagePrice = kept.reduce((sum, price) => sum + price, 0) / kept.length;
+
+  return {
+    currency: mostCommonCurrency(items),
+    items,
+    averagePrice: Math.round(averagePrice * 100) / 100,
+    averageTicket: Math.round(averagePrice * ITEMS_PER_TICKET * 100) / 100
+  };
+}
+
+/**
+ * The price list in an extraction: the one found at OCR time, or one parsed
+ * from its unclassified lines when the extraction arrived without one.
+ */
+export function extractPriceList(extracted: ExtractedText): PriceList | null {
+  return extracted.priceList || summarizePriceList(parsePriceLines(extracted.otherText));
+}
@@ -0,0 +1,205 @@
+// src/lib/merge.ts
+import { DailyHours, ExtractedText, ImageAnnotation, PhoneNumber, PostalAddress, PriceList, SocialProfile } from './types';
+import { WEEKDAYS } from './hours';
+import { summarizePriceList } from './menu';
+
+type ConfidenceLevel = 'High' | 'Medium' | 'Low';
+
+const LEVELS: ConfidenceLevel[] = ['Low', 'Medium', 'High'];
+
+// Keys used to decide whether two values from different images are the same thing; letters of any
+// script are kept, so Chinese, Korean, Arabic and Cyrillic names do not all normalize to ""
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+const normalizeAddress = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+const normalizeWebsite = (value: string) => value.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
+const normalizeEmail = (value: string) => value.toLowerCase().trim();
+
+interface MergedValue {
+  value: string;
+  weight: number;
+  images: Set<number>;
+}
+
+function mergeValues(
+  lists: string[][],
+  normalize: (value: string) => string,
+  rankWeighted = false
+): MergedValue[] {
+  const merged = new Map<string, MergedValue>();
+
+  lists.forEach((values, imageIndex) => {
+    values.forEach((value, rank) => {
+      const key = normalize(value);
+      if (!key) return;
+
+      const entry = merged.get(key) || { value, weight: 0, images: new Set<number>() };
+      // Earlier-ranked values from each image count for more
+      entry.weight += rankWeighted ? Math.max(1, values.length - rank) : 1;
+      entry.images.add(imageIndex);
+      merged.set(key, entry);
+    });
+  });
+
+  return [...merged.values()].sort((a, b) => b.images.size - a.images.size || b.weight - a.weight);
+}
+
+function highestLevel(levels: ConfidenceLevel[]): ConfidenceLevel {
+  return LEVELS[Math.max(...levels.map(level => LEVELS.indexOf(level)))];
+}
+
+// Raise the confidence one level when at least two images agree on the top value
+function boostOnAgreement(level: ConfidenceLevel, values: MergedValue[]): ConfidenceLevel {
+  if (values.length > 0 && values[0].images.size >= 2) {
+    return LEVELS[Math.min(LEVELS.length - 1, LEVELS.indexOf(level) + 1)];
+  }
+  return level;
+}
+
+// Phones are compared by their E.164 form so "(415) 555-0123" and "+1 415 555 0123" agree
+function mergePhones(results: ExtractedText[]): { values: MergedValue[]; details: PhoneNumber[] } {
+  const byE164 = new Map<string, PhoneNumber>();
+  const lists = results.map(result => {
+    const phones = result.phones || [];
+    phones.forEach(phone => {
+      if (!byE164.has(phone.e164)) byE164.set(phone.e164, phone);
+    });
+    return phones.map(phone => phone.e164);
+  });
+
+  const merged = mergeValues(lists, value => value);
+  return {
+    values: merged.map(entry => ({ ...entry, value: byE164.get(entry.value)!.display })),
+    details: merged.map(entry => byE164.get(entry.value)!)
+  };
+}
+
+// Keep the parsed components of whichever image first produced each merged address
+function mergeAddresses(results: ExtractedText[]): { values: MergedValue[]; details: PostalAddress[] } {
+  const byKey = new Map<string, PostalAddress>();
+  const lists = results.map(result => {
+    const addresses = result.addressComponents || result.addresses.map(formatted => ({ formatted }));
+    addresses.forEach(address => {
+      const key = normalizeAddress(address.formatted);
+      if (!byKey.has(key)) byKey.set(key, address);
+    });
+    return addresses.map(address => address.formatted);
+  });
+
+  const merged = mergeValues(lists, normalizeAddress);
+  return {
+    values: merged,
+    details: merged.map(entry => byKey.get(normalizeAddress(entry.value))!)
+  };
+}
+
+// The same handle can be read as 'unknown' on one photo and tied to a platform on another
+function mergeSocialProfiles(results: ExtractedText[]): SocialProfile[] {
+  const profiles: SocialProfile[] = [];
+  for (const profile of results.flatMap(result => result.socialProfiles || [])) {
+    const existing = profiles.find(p => p.handle.toLowerCase() === profile.handle.toLowerCase() &&
+      (p.platform === profile.platform || p.platform === 'unknown' || profile.platform === 'unknown'));
+
+    if (!existing) {
+      profiles.push({ ...profile });
+    } else if (existing.platform === 'unknown') {
+      Object.assign(existing, profile);
+    }
+  }
+  return profiles;
+}
+
+// Same logo or label seen in several photos: keep its best score
+function mergeAnnotations(lists: ImageAnnotation[][]): ImageAnnotation[] {
+  const merged = new Map<string, ImageAnnotation>();
+  lists.flat().forEach(annotation => {
+    const key = annotation.description.toLowerCase();
+    const existing = merged.get(key);
+    if (!existing || annotation.score > existing.score) merged.set(key, annotation);
+  });
+  return [...merged.values()].sort((a, b) => b.score - a.score);
+}
+
+// Posted hours usually come from a single photo; fill each day from the first image that has it
+function mergeOpeningHours(results: ExtractedText[]): DailyHours[] {
+  const byDay = new Map<string, DailyHours>();
+  for (const result of results) {
+    for (const entry of result.openingHours || []) {
+      if (!byDay.has(entry.day)) byDay.set(entry.day, entry);
+    }
+  }
+  return WEEKDAYS.filter(day => byDay.has(day)).map(day => byDay.get(day)!);
+}
+
+// The same menu shot twice lists each item twice; keep one of each item at each price
+function mergePriceLists(results: ExtractedText[]): PriceList | null {
+  const seen = new Set<string>();
+  const items = results.flatMap(result => result.priceList?.items || []).filter(item => {
+    const key = `${item.name.toLowerCase()}|${item.price}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return summarizePriceList(items);
+}
+
+/**
+ * Merge the OCR results of several photos of the same business (storefront,
+ * posted hours, menu, business card) into a single ExtractedText.
+ */
+export function mergeExtractedTexts(results: ExtractedText[]): ExtractedText {
+  if (results.length === 0) {
+    throw new Error('No extraction results to merge');
+  }
+  if (results.length === 1) return results[0];
+
+  console.log(`🧩 Merging extraction results from ${results.length} images...`);
+
+  const businessNames = mergeValues(results.map(r => r.businessNames), normalizeName, true);
+  const nameCandidates = results
+    .flatMap((result, imageIndex) => (result.nameCandidates || []).map(candidate => ({ ...candidate, imageIndex })))
+    .sort((a, b) => b.score - a.score);
+  const addresses = mergeAddresses(results);
+  const phones = mergePhones(results);
+  const websites = mergeValues(results.map(r => r.websites), normalizeWebsite);
+  const emails = mergeValues(results.map(r => r.emails), normalizeEmail);
+  const qrCodes = mergeValues(results.map(r => r.qrCodes || []), value => value.trim());
+  const otherText = mergeValues(results.map(r => r.otherText), normalizeAddress);
+  const categoryHints = mergeValues(results.map(r => r.categoryHints || []), value => value, true);
+  const priceList = mergePriceLists(results);
+
+  const confidence: ExtractedText['confidence'] = {
+    businessName: boostOnAgreement(highestLevel(results.map(r => r.confidence.businessName)), businessNames),
+    address: boostOnAgreement(highestLevel(results.map(r => r.confidence.address)), addresses.values),
+    phone: boostOnAgreement(highestLevel(results.map(r => r.confidence.phone)), phones.values)
+  };
+
+  businessNames.slice(0, 3).forEach((name, i) => {
+    console.log(`   Name ${i + 1}: "${name.value}" (weight ${name.weight}, seen in ${name.images.size} images)`);
+  });
+  console.log('   Merged confidence:', confidence);
+
+  return {
+    businessNames: businessNames.slice(0, 3).map(v => v.value),
+    nameCandidates,
+    addresses: addresses.values.map(v => v.value),
+    addressComponents: addresses.details,
+    phoneNumbers: phones.values.map(v => v.value),
+    phones: phones.details,
+    websites: websites.map(v => v.value),
+    emails: emails.map(v => v.value),
+    socialProfiles: mergeSocialProfiles(results),
+    qrCodes: qrCodes.map(v => v.value),
+    otherText: otherText.map(v => v.value),
+    openingHours: mergeOpeningHours(results),
+    blocks: results.flatMap((result, imageIndex) => (result.blocks || []).map(block => ({ ...block, imageIndex }))),
+    words: results.flatMap((result, imageIndex) => (result.words || []).map(word => ({ ...word, imageIndex }))),
+    logos: mergeAnnotations(results.map(r => r.logos || [])),
+    labels: mergeAnnotations(results.map(r => r.labels || [])),
+    categoryHints: categoryHints.map(v => v.value),
+    ...(priceList ? { priceList } : {}),
+    // The first photo with a timestamp or a fix; photos of one business are taken together
+    capturedAt: results.find(r => r.capturedAt)?.capturedAt,
+    photoLocation: results.find(r => r.photoLocation)?.photoLocation,
+    confidence
+  };
+}
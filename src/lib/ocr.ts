@@ -0,0 +1,423 @@
+// src/lib/ocr.ts
+import vision, { protos } from '@google-cloud/vision';
+import { createWorker, Worker } from 'tesseract.js';
+
+export type OcrProviderName = 'google-vision' | 'tesseract';
+
+// 'scene' suits sparse signage text; 'document' keeps the block and paragraph
+// layout of dense text such as business cards, menus and flyers
+export type OcrMode = 'scene' | 'document';
+
+// 'auto' starts in scene mode and switches to document mode for dense text
+export type OcrModePreference = OcrMode | 'auto';
+
+export const OCR_MODE_PREFERENCES: OcrModePreference[] = ['auto', 'scene', 'document'];
+
+export interface OcrVertex {
+  x: number;
+  y: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  vertices: OcrVertex[];
+}
+
+export interface OcrParagraph {
+  text: string;
+  vertices: OcrVertex[];
+}
+
+// A layout block (a column, a card's contact details, a menu section)
+export interface OcrBlock {
+  text: string;
+  confidence: number;
+  vertices: OcrVertex[];
+  paragraphs: OcrParagraph[];
+}
+
+// Provider-agnostic OCR output consumed by the post-processing in vision.ts
+export interface OcrResult {
+  provider: OcrProviderName;
+  mode: OcrMode;
+  fullText: string;
+  words: OcrWord[];
+  blocks: OcrBlock[];
+}
+
+export interface OcrOptions {
+  mode?: OcrMode;
+  languageHints?: string[]; // BCP-47 codes such as "zh", "ko", "ar", "ru"
+}
+
+const LANGUAGE_HINT_REGEX = /^[a-z]{2,3}(?:-[a-z0-9]{2,4})?$/i;
+const MAX_LANGUAGE_HINTS = 5;
+
+/**
+ * Parse a comma-separated list of language codes ("ko,en"), dropping anything
+ * that is not a language tag. Falls back to OCR_LANGUAGE_HINTS when empty.
+ */
+export function parseLanguageHints(value: string | null | undefined): string[] {
+  const raw = value?.trim() ? value : process.env.OCR_LANGUAGE_HINTS || '';
+  return [...new Set(
+    raw.split(',')
+      .map(code => code.trim())
+      .filter(code => LANGUAGE_HINT_REGEX.test(code))
+      .map(code => code.toLowerCase())
+  )].slice(0, MAX_LANGUAGE_HINTS);
+}
+
+export interface OcrProvider {
+  name: OcrProviderName;
+  isConfigured(): boolean;
+  detectText(imageBuffer: Buffer, options?: OcrOptions): Promise<OcrResult>;
+}
+
+// ---------------------------------------------------------------------------
+// Google Cloud Vision
+// ---------------------------------------------------------------------------
+
+let visionClient: InstanceType<typeof vision.ImageAnnotatorClient> | null = null;
+
+function isProductionEnvironment(): boolean {
+  return !!process.env.VERCEL || process.env.NODE_ENV === 'production';
+}
+
+export function hasGoogleVisionCredentials(): boolean {
+  if (isProductionEnvironment()) {
+    return !!(process.env.GOOGLE_CLOUD_PROJECT_ID && process.env.GOOGLE_CLIENT_EMAIL && process.env.GOOGLE_PRIVATE_KEY);
+  }
+  return !!process.env.GOOGLE_APPLICATION_CREDENTIALS;
+}
+
+// Initialize client with proper error handling
+function createVisionClient() {
+  // Check if we're in production/Vercel
+  if (isProductionEnvironment()) {
+    console.log('🏗️ Initializing Vision client for production...');
+
+    // Verify all required environment variables exist
+    if (!process.env.GOOGLE_CLOUD_PROJECT_ID || !process.env.GOOGLE_CLIENT_EMAIL || !process.env.GOOGLE_PRIVATE_KEY) {
+      throw new Error('Missing required Google Cloud environment variables');
+    }
+
+    console.log(`   - Project ID: ${process.env.GOOGLE_CLOUD_PROJECT_ID}`);
+    console.log(`   - Client Email: ${process.env.GOOGLE_CLIENT_EMAIL}`);
+    console.log(`   - Private Key: ${process.env.GOOGLE_PRIVATE_KEY ? 'SET (length: ' + process.env.GOOGLE_PRIVATE_KEY.length + ')' : 'NOT SET'}`);
+
+    return new vision.ImageAnnotatorClient({
+      projectId: process.env.GOOGLE_CLOUD_PROJECT_ID,
+      credentials: {
+        client_email: process.env.GOOGLE_CLIENT_EMAIL,
+        private_key: process.env.GOOGLE_PRIVATE_KEY.replace(/\\n/g, '\n'),
+        type: 'service_account'
+      }
+    });
+  } else {
+    console.log('🏗️ Initializing Vision client for local development...');
+
+    // For local development, use the credentials file
+    if (!process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+      throw new Error('GOOGLE_APPLICATION_CREDENTIALS not set for local development');
+    }
+
+    console.log(`   - Credentials file: ${process.env.GOOGLE_APPLICATION_CREDENTIALS}`);
+
+    return new vision.ImageAnnotatorClient();
+  }
+}
+
+// Created on first use so a missing credential only fails Vision requests, not module load.
+// Shared with the logo and label detection in image-understanding.ts.
+export function getVisionClient() {
+  if (!visionClient) {
+    visionClient = createVisionClient();
+  }
+  return visionClient;
+}
+
+type VisionAnnotation = protos.google.cloud.vision.v1.ITextAnnotation;
+
+function toVertices(boundingBox: protos.google.cloud.vision.v1.IBoundingPoly | null | undefined): OcrVertex[] {
+  return (boundingBox?.vertices || []).map(vertex => ({
+    x: vertex.x || 0,
+    y: vertex.y || 0
+  }));
+}
+
+// Symbols carry the whitespace that follows them as a "detected break"
+function symbolText(symbol: protos.google.cloud.vision.v1.ISymbol): string {
+  const breakType = symbol.property?.detectedBreak?.type;
+  switch (breakType) {
+    case 'SPACE':
+    case 'SURE_SPACE':
+    case 1:
+    case 2:
+      return `${symbol.text} `;
+    case 'EOL_SURE_SPACE':
+    case 'LINE_BREAK':
+    case 3:
+    case 5:
+      return `${symbol.text}\n`;
+    case 'HYPHEN':
+    case 4:
+      return `${symbol.text}-\n`;
+    default:
+      return symbol.text || '';
+  }
+}
+
+function wordText(word: protos.google.cloud.vision.v1.IWord): string {
+  return (word.symbols || []).map(symbol => symbol.text || '').join('');
+}
+
+// Walk Vision's page → block → paragraph → word → symbol hierarchy
+function blocksFromAnnotation(annotation: VisionAnnotation | null | undefined): OcrBlock[] {
+  const blocks: OcrBlock[] = [];
+  for (const page of annotation?.pages || []) {
+    for (const block of page.blocks || []) {
+      const paragraphs: OcrParagraph[] = (block.paragraphs || []).map(paragraph => ({
+        text: (paragraph.words || [])
+          .flatMap(word => (word.symbols || []).map(symbolText))
+          .join('')
+          .trim(),
+        vertices: toVertices(paragraph.boundingBox)
+      }));
+
+      blocks.push({
+        text: paragraphs.map(paragraph => paragraph.text).join('\n'),
+        confidence: block.confidence || 0,
+        vertices: toVertices(block.boundingBox),
+        paragraphs
+      });
+    }
+  }
+  return blocks;
+}
+
+function wordsFromAnnotation(annotation: VisionAnnotation | null | undefined): OcrWord[] {
+  const words: OcrWord[] = [];
+  for (const page of annotation?.pages || []) {
+    for (const block of page.blocks || []) {
+      for (const paragraph of block.paragraphs || []) {
+        for (const word of paragraph.words || []) {
+          words.push({
+            text: wordText(word),
+            confidence: word.confidence || 0,
+            vertices: toVertices(word.boundingBox)
+          });
+        }
+      }
+    }
+  }
+  return words;
+}
+
+const googleVisionProvider: OcrProvider = {
+  name: 'google-vision',
+
+  isConfigured: hasGoogleVisionCredentials,
+
+  async detectText(imageBuffer: Buffer, options: OcrOptions = {}): Promise<OcrResult> {
+    const mode = options.mode || 'scene';
+    // Without hints Vision guesses the language, which is unreliable for short signs in non-Latin scripts
+    const imageContext = options.languageHints?.length ? { languageHints: options.languageHints } : undefined;
+
+    if (mode === 'document') {
+      const [result] = await getVisionClient().documentTextDetection({
+        image: { content: imageBuffer },
+        imageContext
+      });
+
+      const annotation = result.fullTextAnnotation;
+      const blocks = blocksFromAnnotation(annotation);
+      console.log(`📊 Google Vision document detection returned ${blocks.length} blocks`);
+
+      return {
+        provider: 'google-vision',
+        mode,
+        fullText: annotation?.text || '',
+        words: wordsFromAnnotation(annotation),
+        blocks
+      };
+    }
+
+    const [result] = await getVisionClient().textDetection({
+      image: { content: imageBuffer },
+      imageContext
+    });
+
+    const detections = result.textAnnotations || [];
+    console.log(`📊 Google Vision returned ${detections.length} text detections`);
+
+    // The first annotation is the full text, the rest are individual words
+    return {
+      provider: 'google-vision',
+      mode,
+      fullText: detections[0]?.description || '',
+      words: detections.slice(1).map(detection => ({
+        text: detection.description || '',
+        confidence: detection.confidence || 0,
+        vertices: toVertices(detection.boundingPoly)
+      })),
+      // Text detection also reports a coarse layout, tuned for sparse text
+      blocks: blocksFromAnnotation(result.fullTextAnnotation)
+    };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Tesseract (offline)
+// ---------------------------------------------------------------------------
+
+interface TesseractWorkerEntry {
+  worker: Promise<Worker>;
+  active: number; // Recognitions in progress; busy workers are never terminated
+}
+
+// One worker per language combination, since loading the language data is the slow part. Hints come
+// from the client, so the pool is capped and the least recently used idle worker is terminated
+const tesseractWorkers = new Map<string, TesseractWorkerEntry>(); // Least recently used first
+const MAX_TESSERACT_WORKERS = Number(process.env.TESSERACT_MAX_WORKERS) || 3;
+
+// Tesseract names its traineddata files with its own codes
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  en: 'eng', es: 'spa', fr: 'fra', de: 'deu', it: 'ita', pt: 'por', nl: 'nld', pl: 'pol', tr: 'tur', vi: 'vie',
+  ru: 'rus', uk: 'ukr', be: 'bel', bg: 'bul', sr: 'srp', el: 'ell', he: 'heb', hi: 'hin', th: 'tha',
+  ar: 'ara', fa: 'fas', ur: 'urd', ko: 'kor', ja: 'jpn',
+  zh: 'chi_sim', 'zh-cn': 'chi_sim', 'zh-hans': 'chi_sim', 'zh-tw': 'chi_tra', 'zh-hk': 'chi_tra', 'zh-hant': 'chi_tra'
+};
+
+// TESSERACT_LANGS plus the hinted languages Tesseract has data for
+function tesseractLanguages(languageHints: string[] = []): string[] {
+  const defaults = (process.env.TESSERACT_LANGS || 'eng').split('+');
+  const hinted = languageHints
+    .map(hint => TESSERACT_LANGUAGES[hint] || TESSERACT_LANGUAGES[hint.split('-')[0]])
+    .filter((lang): lang is string => !!lang);
+  return [...new Set([...hinted, ...defaults])];
+}
+
+function evictIdleTesseractWorkers(): void {
+  for (const [key, entry] of tesseractWorkers) {
+    if (tesseractWorkers.size <= MAX_TESSERACT_WORKERS) return;
+    if (entry.active > 0) continue;
+
+    console.log(`🧹 Terminating idle Tesseract worker (languages: ${key})`);
+    tesseractWorkers.delete(key);
+    entry.worker.then(worker => worker.terminate()).catch(() => undefined);
+  }
+}
+
+async function withTesseractWorker<T>(langs: string[], task: (worker: Worker) => Promise<T>): Promise<T> {
+  // "ko,en" and "en,ko" need the same language data, so they share a worker
+  const sortedLangs = [...langs].sort();
+  const key = sortedLangs.join('+');
+
+  let entry = tesseractWorkers.get(key);
+  if (entry) {
+    tesseractWorkers.delete(key); // Re-inserted below as the most recently used
+  } else {
+    console.log(`🏗️ Initializing Tesseract worker (languages: ${sortedLangs.join(', ')})...`);
+
+    // TESSERACT_LANG_PATH lets air-gapped machines load traineddata from a local folder
+    const worker: Promise<Worker> = createWorker(sortedLangs, undefined, {
+      ...(process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH } : {}),
+      ...(process.env.TESSERACT_CACHE_PATH ? { cachePath: process.env.TESSERACT_CACHE_PATH } : {})
+    }).catch(error => {
+      if (tesseractWorkers.get(key)?.worker === worker) tesseractWorkers.delete(key);
+      throw error;
+    });
+    entry = { worker, active: 0 };
+  }
+  tesseractWorkers.set(key, entry);
+
+  entry.active++;
+  evictIdleTesseractWorkers();
+  try {
+    return await task(await entry.worker);
+  } finally {
+    entry.active--;
+    evictIdleTesseractWorkers();
+  }
+}
+
+function bboxToVertices({ x0, y0, x1, y1 }: { x0: number; y0: number; x1: number; y1: number }): OcrVertex[] {
+  return [
+    { x: x0, y: y0 },
+    { x: x1, y: y0 },
+    { x: x1, y: y1 },
+    { x: x0, y: y1 }
+  ];
+}
+
+const tesseractProvider: OcrProvider = {
+  name: 'tesseract',
+
+  isConfigured: () => true,
+
+  async detectText(imageBuffer: Buffer, options: OcrOptions = {}): Promise<OcrResult> {
+    const { data } = await withTesseractWorker(tesseractLanguages(options.languageHints), worker =>
+      worker.recognize(imageBuffer, {}, { text: true, blocks: true })
+    );
+
+    const words: OcrWord[] = [];
+    const blocks: OcrBlock[] = [];
+    for (const block of data.blocks || []) {
+      blocks.push({
+        text: block.text.trim(),
+        confidence: block.confidence / 100,
+        vertices: bboxToVertices(block.bbox),
+        paragraphs: block.paragraphs.map(paragraph => ({
+          text: paragraph.text.trim(),
+          vertices: bboxToVertices(paragraph.bbox)
+        }))
+      });
+
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          for (const word of line.words) {
+            words.push({
+              text: word.text,
+              // Tesseract reports 0-100, Vision reports 0-1
+              confidence: word.confidence / 100,
+              vertices: bboxToVertices(word.bbox)
+            });
+          }
+        }
+      }
+    }
+
+    console.log(`📊 Tesseract returned ${words.length} words (page confidence: ${data.confidence})`);
+
+    return {
+      provider: 'tesseract',
+      // Tesseract always runs full page layout analysis, so every result is document-mode
+      mode: 'document',
+      fullText: (data.text || '').trim(),
+      words,
+      blocks
+    };
+  }
+};
+
+const OCR_PROVIDERS: Record<OcrProviderName, OcrProvider> = {
+  'google-vision': googleVisionProvider,
+  'tesseract': tesseractProvider
+};
+
+/**
+ * Resolve the OCR provider from OCR_PROVIDER ('google-vision' | 'tesseract').
+ * When unset, Google Vision is used if credentials are present, otherwise Tesseract.
+ */
+export function getOcrProvider(name: string | undefined = process.env.OCR_PROVIDER): OcrProvider {
+  if (name) {
+    const provider = OCR_PROVIDERS[name as OcrProviderName];
+    if (!provider) {
+      throw new Error(`Unknown OCR provider "${name}". Expected one of: ${Object.keys(OCR_PROVIDERS).join(', ')}`);
+    }
+    return provider;
+  }
+
+  return googleVisionProvider.isConfigured() ? googleVisionProvider : tesseractProvider;
+}
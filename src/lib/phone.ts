@@ -0,0 +1,77 @@
+// src/lib/phone.ts
+import {
+  CountryCode,
+  findPhoneNumbersInText,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  PhoneNumber as LibPhoneNumber
+} from 'libphonenumber-js/max';
+import { PhoneNumber } from './types';
+
+/**
+ * Region used for numbers written without a country code. Configure with
+ * DEFAULT_PHONE_REGION (ISO 3166-1 alpha-2, e.g. "US", "GB", "MX").
+ */
+export function getDefaultPhoneRegion(): CountryCode {
+  const region = (process.env.DEFAULT_PHONE_REGION || 'US').toUpperCase();
+  return isSupportedCountry(region) ? region : 'US';
+}
+
+function toPhoneNumber(number: LibPhoneNumber, raw: string, defaultRegion: CountryCode): PhoneNumber {
+  return {
+    raw,
+    e164: number.number,
+    // Local numbers read best in national format, foreign ones need the country code
+    display: number.country === defaultRegion ? number.formatNational() : number.formatInternational(),
+    country: number.country
+  };
+}
+
+/**
+ * Signage is full of digit runs that are not phone numbers: prices, ZIP+4
+ * codes, dates and opening times.
+ */
+function looksLikeFalsePositive(text: string, startsAt: number, endsAt: number): boolean {
+  const raw = text.slice(startsAt, endsAt);
+  const before = text.slice(Math.max(0, startsAt - 3), startsAt);
+  const after = text.slice(endsAt, endsAt + 3);
+
+  if (/[$€£¥₹]\s*$/.test(before) || /^\s*(?:[$€£¥₹]|usd|eur)/i.test(after)) return true; // Prices
+  if (/^\d{5}-\d{4}$/.test(raw.trim())) return true;                                     // ZIP+4
+  if (/\d[.,]\d{2}$/.test(raw.trim()) && !/[-\s()]/.test(raw.trim())) return true;       // "1299.00"
+  if (/^\d{1,2}[/.]\d{1,2}[/.]\d{2,4}$/.test(raw.trim())) return true;                   // Dates
+  if (/^\s*(?:am|pm|a\.m|p\.m)\b/i.test(text.slice(endsAt, endsAt + 5))) return true;    // "9-5 pm"
+
+  return false;
+}
+
+export function extractPhoneNumbers(text: string, defaultRegion: CountryCode = getDefaultPhoneRegion()): PhoneNumber[] {
+  const found = findPhoneNumbersInText(text, { defaultCountry: defaultRegion });
+  const phones: PhoneNumber[] = [];
+
+  for (const match of found) {
+    const raw = text.slice(match.startsAt, match.endsAt);
+    if (!match.number.isValid() || looksLikeFalsePositive(text, match.startsAt, match.endsAt)) {
+      console.log(`   Rejected phone candidate: "${raw}"`);
+      continue;
+    }
+    if (!phones.some(phone => phone.e164 === match.number.number)) {
+      phones.push(toPhoneNumber(match.number, raw, defaultRegion));
+    }
+  }
+
+  console.log(`   Phone extraction: ${phones.length} found (default region ${defaultRegion})`);
+  return phones;
+}
+
+/**
+ * Normalize a single phone string (OCR, Places or web search) to E.164 plus a display format.
+ */
+export function normalizePhoneNumber(value: string | undefined, defaultRegion: CountryCode = getDefaultPhoneRegion()): PhoneNumber | null {
+  if (!value) return null;
+
+  const number = parsePhoneNumberFromString(value, defaultRegion);
+  if (!number || !number.isValid()) return null;
+
+  return toPhoneNumber(number, value, defaultRegion);
+}
@@ -0,0 +1,59 @@
+// src/lib/photo-metadata.ts
+import exifr from 'exifr';
+import { isValidGeoPoint } from './geo';
+import { PhotoMetadata } from './types';
+
+const EXIF_TAGS = [
+  'DateTimeOriginal',
+  'CreateDate',
+  'OffsetTimeOriginal',
+  'GPSLatitude',
+  'GPSLatitudeRef',
+  'GPSLongitude',
+  'GPSLongitudeRef',
+  'GPSHPositioningError'
+];
+
+// EXIF writes "2024:05:01 12:30:15" in the camera's local time, with the UTC offset in a separate tag
+function toIsoTimestamp(dateTime: unknown, offset: unknown): string | undefined {
+  if (typeof dateTime !== 'string') return undefined;
+  const match = dateTime.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+/**
+ * Read the capture time and GPS position from a photo's EXIF (JPEG, HEIC,
+ * PNG, WebP). Must run on the uploaded bytes: normalization strips metadata.
+ * Photos without EXIF, or that exifr cannot parse, give an empty result.
+ */
+export async function readPhotoMetadata(imageBuffer: Buffer): Promise<PhotoMetadata> {
+  let tags: Record<string, unknown> | undefined;
+  try {
+    tags = await exifr.parse(imageBuffer, { pick: EXIF_TAGS, gps: true, reviveValues: false });
+  } catch (error) {
+    console.warn('⚠️ Could not read EXIF metadata:', error instanceof Error ? error.message : error);
+    return {};
+  }
+  if (!tags) return {};
+
+  const metadata: PhotoMetadata = {};
+
+  const capturedAt = toIsoTimestamp(tags.DateTimeOriginal ?? tags.CreateDate, tags.OffsetTimeOriginal);
+  if (capturedAt) metadata.capturedAt = capturedAt;
+
+  // Phones without a fix sometimes write 0,0
+  const location = { lat: tags.latitude, lng: tags.longitude };
+  if (isValidGeoPoint(location) && !(location.lat === 0 && location.lng === 0)) {
+    metadata.location = location;
+    if (typeof tags.GPSHPositioningError === 'number') metadata.locationAccuracy = tags.GPSHPositioningError;
+  }
+
+  if (metadata.capturedAt || metadata.location) {
+    console.log(`📷 EXIF: taken ${metadata.capturedAt || 'at an unknown time'}${metadata.location ? ` at ${metadata.location.lat.toFixed(5)}, ${metadata.location.lng.toFixed(5)}` : ''}`);
+  }
+  return metadata;
+}
@@ -0,0 +1,354 @@
+// src/lib/places-client.ts
+import { GeoPoint, PlaceOpeningPeriod, PlacesResult } from './types';
+
+export type PlacesApiName = 'legacy' | 'new';
+
+export interface TextSearchOptions {
+  locationBias?: { center: GeoPoint; radiusMeters: number }; // Favour results near here (not a hard limit)
+  maxResults?: number;
+}
+
+export interface NearbySearchOptions {
+  center: GeoPoint;
+  radiusMeters: number; // Hard limit, unlike a text search's location bias
+  types: string[];      // Places types such as "cafe"; both APIs accept the legacy type names
+  maxResults?: number;
+  rankByDistance?: boolean; // Nearest first instead of most popular (Places API (New) only)
+}
+
+/**
+ * One Google Places API behind a common interface. Both adapters map their
+ * responses into the legacy-shaped PlacesResult the rest of the app uses.
+ * Failed requests throw; "nothing found" is an empty list or null.
+ */
+export interface PlacesClient {
+  name: PlacesApiName;
+  isConfigured(): boolean;
+  searchText(query: string, options?: TextSearchOptions): Promise<PlacesResult[]>;
+  searchNearby(options: NearbySearchOptions): Promise<PlacesResult[]>;
+  getDetails(placeId: string): Promise<PlacesResult | null>;
+}
+
+const DEFAULT_MAX_RESULTS = 10;
+
+// Both APIs return at most 20 places per nearby request
+const MAX_NEARBY_RESULTS = 20;
+
+const hasApiKey = () => !!process.env.GOOGLE_PLACES_API_KEY;
+
+// Leave out what the response did not include, so merging details never blanks a search field
+function withoutMissingFields(place: PlacesResult): PlacesResult {
+  const present = { ...place };
+  for (const key of Object.keys(present) as (keyof PlacesResult)[]) {
+    if (present[key] === undefined) delete present[key];
+  }
+  return present;
+}
+
+// ---------------------------------------------------------------------------
+// Legacy Places API (textsearch/json, details/json)
+// ---------------------------------------------------------------------------
+
+const LEGACY_BASE_URL = 'https://maps.googleapis.com/maps/api/place';
+
+// Everything a listing needs from a place; Text Search results leave out phone, website and hours
+const LEGACY_DETAIL_FIELDS = [
+  'place_id',
+  'name',
+  'formatted_address',
+  'international_phone_number',
+  'website',
+  'business_status',
+  'opening_hours',
+  'rating',
+  'user_ratings_total',
+  'price_level',
+  'types',
+  'geometry'
+].join(',');
+
+// The parts of a legacy place this app reads
+interface LegacyPlace {
+  place_id?: string;
+  name?: string;
+  formatted_address?: string;
+  vicinity?: string; // Nearby Search returns this instead of formatted_address
+  international_phone_number?: string;
+  website?: string;
+  business_status?: string;
+  opening_hours?: { weekday_text?: string[]; periods?: PlaceOpeningPeriod[] };
+  rating?: number;
+  user_ratings_total?: number;
+  price_level?: number;
+  types?: string[];
+  geometry?: { location: { lat: number; lng: number } };
+}
+
+interface LegacyResponse {
+  status: string;
+  error_message?: string;
+  results?: LegacyPlace[]; // Searches
+  result?: LegacyPlace;    // Details
+}
+
+async function fetchLegacy(path: string, params: Record<string, string>): Promise<LegacyResponse> {
+  const query = new URLSearchParams({ ...params, key: process.env.GOOGLE_PLACES_API_KEY! });
+  const url = `${LEGACY_BASE_URL}/${path}?${query}`;
+  console.log(`🌐 Places (legacy) URL: ${url.replace(process.env.GOOGLE_PLACES_API_KEY!, '[API_KEY]')}`);
+
+  const response = await fetch(url);
+  console.log(`📥 Places (legacy) response status: ${response.status} ${response.statusText}`);
+  if (!response.ok) {
+    throw new Error(`Places request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data: LegacyResponse = await response.json();
+  console.log(`📋 Places (legacy) status: "${data.status}"`);
+  if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS' && data.status !== 'NOT_FOUND') {
+    throw new Error(`Places API returned ${data.status}${data.error_message ? `: ${data.error_message}` : ''}`);
+  }
+  return data;
+}
+
+function fromLegacyPlace(place: LegacyPlace): PlacesResult {
+  return withoutMissingFields({
+    place_id: place.place_id || '',
+    name: place.name || '',
+    formatted_address: place.formatted_address || place.vicinity || '',
+    international_phone_number: place.international_phone_number,
+    website: place.website,
+    business_status: place.business_status,
+    opening_hours: place.opening_hours
+      ? { weekday_text: place.opening_hours.weekday_text || [], periods: place.opening_hours.periods }
+      : undefined,
+    rating: place.rating,
+    user_ratings_total: place.user_ratings_total,
+    price_level: place.price_level,
+    types: place.types,
+    geometry: place.geometry
+  });
+}
+
+const legacyPlacesClient: PlacesClient = {
+  name: 'legacy',
+
+  isConfigured: hasApiKey,
+
+  async searchText(query: string, options: TextSearchOptions = {}): Promise<PlacesResult[]> {
+    const bias = options.locationBias;
+    const data = await fetchLegacy('textsearch/json', {
+      query,
+      ...(bias ? { location: `${bias.center.lat},${bias.center.lng}`, radius: String(bias.radiusMeters) } : {})
+    });
+    return (data.results || []).slice(0, options.maxResults || DEFAULT_MAX_RESULTS).map(fromLegacyPlace);
+  },
+
+  async searchNearby(options: NearbySearchOptions): Promise<PlacesResult[]> {
+    // The legacy API takes one type per request, so merge one search per type
+    const responses = await Promise.all(options.types.map(type => fetchLegacy('nearbysearch/json', {
+      location: `${options.center.lat},${options.center.lng}`,
+      radius: String(options.radiusMeters),
+      type
+    })));
+    const places = new Map<string, PlacesResult>();
+    responses.forEach(data => (data.results || []).forEach(place => places.set(place.place_id || '', fromLegacyPlace(place))));
+    return [...places.values()].slice(0, options.maxResults || MAX_NEARBY_RESULTS);
+  },
+
+  async getDetails(placeId: string): Promise<PlacesResult | null> {
+    const data = await fetchLegacy('details/json', { place_id: placeId, fields: LEGACY_DETAIL_FIELDS });
+    return data.result ? fromLegacyPlace({ place_id: placeId, ...data.result }) : null;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Places API (New) (places:searchText, places/{id})
+// ---------------------------------------------------------------------------
+
+const NEW_BASE_URL = 'https://places.googleapis.com/v1';
+
+// Field masks decide both the response and the billing tier, so search asks for less than details
+const NEW_SEARCH_FIELDS = [
+  'id', 'displayName', 'formattedAddress', 'location', 'types', 'primaryType',
+  'rating', 'userRatingCount', 'businessStatus', 'priceLevel', 'priceRange'
+];
+const NEW_DETAIL_FIELDS = [
+  ...NEW_SEARCH_FIELDS,
+  'internationalPhoneNumber', 'websiteUri', 'regularOpeningHours', 'servesBeer', 'takeout'
+];
+
+const NEW_PRICE_LEVELS: Record<string, number> = {
+  PRICE_LEVEL_FREE: 0,
+  PRICE_LEVEL_INEXPENSIVE: 1,
+  PRICE_LEVEL_MODERATE: 2,
+  PRICE_LEVEL_EXPENSIVE: 3,
+  PRICE_LEVEL_VERY_EXPENSIVE: 4
+};
+
+interface NewMoney {
+  currencyCode?: string;
+  units?: string; // int64, sent as a string
+  nanos?: number;
+}
+
+interface NewPeriodPoint {
+  day: number;
+  hour?: number;
+  minute?: number;
+}
+
+// The fields of a place (New) that NEW_DETAIL_FIELDS asks for
+interface NewPlace {
+  id: string;
+  displayName?: { text: string; languageCode?: string };
+  formattedAddress?: string;
+  location?: { latitude: number; longitude: number };
+  types?: string[];
+  primaryType?: string;
+  rating?: number;
+  userRatingCount?: number;
+  businessStatus?: string;
+  priceLevel?: string;
+  priceRange?: { startPrice?: NewMoney; endPrice?: NewMoney };
+  internationalPhoneNumber?: string;
+  websiteUri?: string;
+  regularOpeningHours?: {
+    weekdayDescriptions?: string[];
+    periods?: { open: NewPeriodPoint; close?: NewPeriodPoint }[];
+  };
+  servesBeer?: boolean;
+  takeout?: boolean;
+}
+
+interface NewSearchResponse {
+  places?: NewPlace[];
+}
+
+interface NewErrorResponse {
+  error?: { message?: string };
+}
+
+async function fetchNew<T>(path: string, fieldMask: string[], body?: unknown): Promise<T | null> {
+  const url = `${NEW_BASE_URL}/${path}`;
+  console.log(`🌐 Places (new) ${body ? 'POST' : 'GET'} ${url}`);
+
+  const response = await fetch(url, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': process.env.GOOGLE_PLACES_API_KEY!,
+      'X-Goog-FieldMask': fieldMask.join(',')
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+  console.log(`📥 Places (new) response status: ${response.status} ${response.statusText}`);
+
+  if (response.status === 404) return null;
+  const data: (T & NewErrorResponse) | null = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`Places request failed: ${response.status}${data?.error?.message ? `: ${data.error.message}` : ` ${response.statusText}`}`);
+  }
+  return data;
+}
+
+// { day: 1, hour: 9, minute: 30 } → { day: 1, time: "0930" }
+const toLegacyPoint = (point: NewPeriodPoint) => ({
+  day: point.day,
+  time: `${String(point.hour ?? 0).padStart(2, '0')}${String(point.minute ?? 0).padStart(2, '0')}`
+});
+
+function toLegacyPeriods(periods: { open: NewPeriodPoint; close?: NewPeriodPoint }[] | undefined): PlaceOpeningPeriod[] | undefined {
+  return periods?.map(period => ({
+    open: toLegacyPoint(period.open),
+    ...(period.close ? { close: toLegacyPoint(period.close) } : {})
+  }));
+}
+
+const moneyToNumber = (money: NewMoney | undefined): number | undefined =>
+  money ? Number(money.units || 0) + (money.nanos || 0) / 1e9 : undefined;
+
+function fromNewPlace(place: NewPlace): PlacesResult {
+  const priceRange = place.priceRange
+    ? {
+      currency: place.priceRange.startPrice?.currencyCode || place.priceRange.endPrice?.currencyCode || '',
+      low: moneyToNumber(place.priceRange.startPrice),
+      high: moneyToNumber(place.priceRange.endPrice)
+    }
+    : undefined;
+
+  return withoutMissingFields({
+    place_id: place.id,
+    name: place.displayName?.text || '',
+    formatted_address: place.formattedAddress || '',
+    international_phone_number: place.internationalPhoneNumber,
+    website: place.websiteUri,
+    business_status: place.businessStatus,
+    opening_hours: place.regularOpeningHours
+      ? {
+        weekday_text: place.regularOpeningHours.weekdayDescriptions || [],
+        periods: toLegacyPeriods(place.regularOpeningHours.periods)
+      }
+      : undefined,
+    rating: place.rating,
+    user_ratings_total: place.userRatingCount,
+    price_level: place.priceLevel ? NEW_PRICE_LEVELS[place.priceLevel] : undefined,
+    types: place.types,
+    geometry: place.location
+      ? { location: { lat: place.location.latitude, lng: place.location.longitude } }
+      : undefined,
+    primary_type: place.primaryType,
+    serves_beer: place.servesBeer,
+    takeout: place.takeout,
+    price_range: priceRange
+  });
+}
+
+const newPlacesClient: PlacesClient = {
+  name: 'new',
+
+  isConfigured: hasApiKey,
+
+  async searchText(query: string, options: TextSearchOptions = {}): Promise<PlacesResult[]> {
+    const bias = options.locationBias;
+    const data = await fetchNew<NewSearchResponse>('places:searchText', NEW_SEARCH_FIELDS.map(field => `places.${field}`), {
+      textQuery: query,
+      pageSize: options.maxResults || DEFAULT_MAX_RESULTS,
+      ...(bias
+        ? { locationBias: { circle: { center: { latitude: bias.center.lat, longitude: bias.center.lng }, radius: bias.radiusMeters } } }
+        : {})
+    });
+    return (data?.places || []).map(fromNewPlace);
+  },
+
+  async searchNearby(options: NearbySearchOptions): Promise<PlacesResult[]> {
+    const data = await fetchNew<NewSearchResponse>('places:searchNearby', NEW_SEARCH_FIELDS.map(field => `places.${field}`), {
+      includedTypes: options.types,
+      maxResultCount: Math.min(options.maxResults || MAX_NEARBY_RESULTS, MAX_NEARBY_RESULTS),
+      ...(options.rankByDistance ? { rankPreference: 'DISTANCE' } : {}),
+      locationRestriction: {
+        circle: { center: { latitude: options.center.lat, longitude: options.center.lng }, radius: options.radiusMeters }
+      }
+    });
+    return (data?.places || []).map(fromNewPlace);
+  },
+
+  async getDetails(placeId: string): Promise<PlacesResult | null> {
+    const data = await fetchNew<NewPlace>(`places/${encodeURIComponent(placeId)}`, NEW_DETAIL_FIELDS);
+    return data ? fromNewPlace(data) : null;
+  }
+};
+
+/**
+ * Resolve the Places client from PLACES_API ('legacy' | 'new'). Defaults to
+ * the legacy API; both use GOOGLE_PLACES_API_KEY.
+ */
+export function getPlacesClient(name: string | undefined = process.env.PLACES_API): PlacesClient {
+  switch ((name || 'legacy') as PlacesApiName) {
+    case 'legacy':
+      return legacyPlacesClient;
+    case 'new':
+      return newPlacesClient;
+    default:
+      throw new Error(`Unknown Places API "${name}". Expected one of: legacy, new`);
+  }
+}
@@ -1,19 +1,24 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 // src/app/lib/places.ts
-import { PlacesResult } from './types';
+import { distanceInMeters } from './geo';
+import { getPlacesClient } from './places-client';
+import { GeoPoint, PlacesResult } from './types';
+
+// Name plus whatever address the photo showed; both searches send the same query
+const buildQuery = (businessName: string, address?: string) => address ? `${businessName} ${address}` : businessName;
 
 export async function searchBusiness(businessName: string, address?: string): Promise<PlacesResult | null> {
   try {
-    console.log('🗺️ STARTING GOOGLE PLACES API SEARCH');
+    const client = getPlacesClient();
+    console.log(`🗺️ STARTING GOOGLE PLACES API SEARCH (${client.name})`);
     console.log('='.repeat(60));
     console.log(`📝 Input business name: "${businessName}"`);
     console.log(`📍 Input address: ${address ? `"${address}"` : 'Not provided'}`);
     
-    const query = address ? `${businessName} ${address}` : businessName;
+    const query = buildQuery(businessName, address);
     console.log(`🔍 Final search query: "${query}"`);
 
     // Check API key
-    if (!process.env.GOOGLE_PLACES_API_KEY) {
+    if (!client.isConfigured()) {
       console.error('❌ Google Places API key is not configured');
       return null;
     }
@@ -22,39 +27,17 @@ export async function searchBusiness(businessName: string, address?: string): Pr
     // Step 1: Text Search
     console.log('\n📡 STEP 1: PERFORMING TEXT SEARCH');
     console.log('-'.repeat(40));
-    const searchUrl = `https://maps.googleapis.com/maps/api/place/textsearch/json?query=${encodeURIComponent(query)}&key=${process.env.GOOGLE_PLACES_API_KEY}`;
-    console.log(`🌐 Search URL: ${searchUrl.replace(process.env.GOOGLE_PLACES_API_KEY, '[API_KEY]')}`);
-    
-    console.log('📤 Making text search request...');
-    const searchResponse = await fetch(searchUrl);
-    console.log(`📥 Search response status: ${searchResponse.status} ${searchResponse.statusText}`);
-    
-    if (!searchResponse.ok) {
-      console.error('❌ Search request failed:', searchResponse.status, searchResponse.statusText);
-      return null;
-    }
-
-    const searchData = await searchResponse.json();
-    console.log('📊 Search response keys:', Object.keys(searchData));
-    console.log(`📋 Search status: "${searchData.status}"`);
-
-    if (searchData.status !== 'OK') {
-      console.log('⚠️ Places API returned non-OK status:', searchData.status);
-      if (searchData.error_message) {
-        console.error('❌ Places API error message:', searchData.error_message);
-      }
-      return null;
-    }
+    const results = await client.searchText(query);
 
-    if (!searchData.results || searchData.results.length === 0) {
+    if (results.length === 0) {
       console.log('❌ No results found in Places API response');
       return null;
     }
 
-    console.log(`✅ Found ${searchData.results.length} search results`);
+    console.log(`✅ Found ${results.length} search results`);
     
     // Log all results for debugging
-    searchData.results.forEach((result: any, index: number) => {
+    results.forEach((result, index) => {
       console.log(`  Result ${index + 1}:`);
       console.log(`    Name: "${result.name}"`);
       console.log(`    Address: "${result.formatted_address || 'N/A'}"`);
@@ -64,7 +47,7 @@ export async function searchBusiness(businessName: string, address?: string): Pr
       console.log(`    Business Status: ${result.business_status || 'N/A'}`);
     });
 
-    const bestMatch = searchData.results[0];
+    const bestMatch = results[0];
     const placeId = bestMatch.place_id;
     console.log(`\n🎯 Selected best match: "${bestMatch.name}"`);
     console.log(`📍 Address: "${bestMatch.formatted_address || 'N/A'}"`);
@@ -73,32 +56,10 @@ export async function searchBusiness(businessName: string, address?: string): Pr
     // Step 2: Get Place Details
     console.log('\n📡 STEP 2: FETCHING DETAILED PLACE INFORMATION');
     console.log('-'.repeat(40));
-    const fields = [
-      'name',
-      'formatted_address',
-      'international_phone_number',
-      'website',
-      'business_status',
-      'opening_hours',
-      'rating',
-      'user_ratings_total',
-      'price_level',
-      'types',
-      'geometry'
-    ].join(',');
-    console.log(`📝 Requested fields: ${fields}`);
-
-    const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&fields=${fields}&key=${process.env.GOOGLE_PLACES_API_KEY}`;
-    console.log(`🌐 Details URL: ${detailsUrl.replace(process.env.GOOGLE_PLACES_API_KEY, '[API_KEY]')}`);
-    
-    console.log('📤 Making place details request...');
-    const detailsResponse = await fetch(detailsUrl);
-    console.log(`📥 Details response status: ${detailsResponse.status} ${detailsResponse.statusText}`);
-    
-    if (!detailsResponse.ok) {
-      console.error('⚠️ Details request failed:', detailsResponse.status, detailsResponse.statusText);
+    const result = await getPlaceDetails(placeId);
+
+    if (!result) {
       console.log('🔄 Returning basic info from search results as fallback');
-      
       const fallbackResult = {
         place_id: placeId,
         name: bestMatch.name,
@@ -108,25 +69,63 @@ export async function searchBusiness(businessName: string, address?: string): Pr
         rating: bestMatch.rating,
         user_ratings_total: bestMatch.user_ratings_total,
       } as PlacesResult;
-      
+
       console.log('📊 Fallback result:', fallbackResult);
       return fallbackResult;
     }
 
-    const detailsData = await detailsResponse.json();
-    console.log('📊 Details response keys:', Object.keys(detailsData));
-    console.log(`📋 Details status: "${detailsData.status}"`);
-
-    if (detailsData.status !== 'OK') {
-      console.error('⚠️ Place details returned non-OK status:', detailsData.status);
-      if (detailsData.error_message) {
-        console.error('❌ Place details error message:', detailsData.error_message);
-      }
-      console.log('🔄 Returning basic search result as fallback');
-      return bestMatch as PlacesResult;
+    console.log('\n✅ PLACES API SEARCH COMPLETED SUCCESSFULLY');
+    console.log('='.repeat(60));
+    return result;
+
+  } catch (error) {
+    console.error('❌ PLACES API ERROR:', error);
+    console.log('Error details:', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : 'No stack trace'
+    });
+    return null;
+  }
+}
+
+// Place ID → pending details lookup, so one request never fetches the same place twice
+export type PlaceDetailsCache = Map<string, Promise<PlacesResult | null>>;
+
+export function createPlaceDetailsCache(): PlaceDetailsCache {
+  return new Map();
+}
+
+/**
+ * Fetch the full details of a place by ID. Returns null when the lookup
+ * fails, so callers can fall back to the search result they already have.
+ * Pass a per-request cache to share lookups between steps of one request.
+ */
+export async function getPlaceDetails(placeId: string, cache?: PlaceDetailsCache): Promise<PlacesResult | null> {
+  const cached = cache?.get(placeId);
+  if (cached) {
+    console.log(`♻️ Reusing place details for ${placeId}`);
+    return cached;
+  }
+
+  const lookup = fetchPlaceDetails(placeId);
+  cache?.set(placeId, lookup);
+  return lookup;
+}
+
+async function fetchPlaceDetails(placeId: string): Promise<PlacesResult | null> {
+  try {
+    const client = getPlacesClient();
+    if (!client.isConfigured()) {
+      console.error('❌ Google Places API key is not configured');
+      return null;
     }
 
-    const result = detailsData.result as PlacesResult;
+    console.log(`📤 Making place details request (${client.name})...`);
+    const result = await client.getDetails(placeId);
+    if (!result) {
+      console.error(`⚠️ No place details found for ${placeId}`);
+      return null;
+    }
     
     console.log('\n📊 DETAILED PLACE INFORMATION RETRIEVED:');
     console.log('-'.repeat(40));
@@ -149,20 +148,26 @@ export async function searchBusiness(businessName: string, address?: string): Pr
       console.log('🕒 Hours: Not available');
     }
 
-    console.log('\n✅ PLACES API SEARCH COMPLETED SUCCESSFULLY');
-    console.log('='.repeat(60));
     return result;
 
   } catch (error) {
-    console.error('❌ PLACES API ERROR:', error);
-    console.log('Error details:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : 'No stack trace'
-    });
+    console.error('❌ Place details error:', error);
     return null;
   }
 }
 
+/**
+ * Fill a sparse search result (such as a location the user picked) with its
+ * place details. Keeps the search result when the lookup fails.
+ */
+export async function withPlaceDetails<T extends { place_id: string }>(
+  place: T,
+  cache?: PlaceDetailsCache
+): Promise<T & Partial<PlacesResult>> {
+  const details = await getPlaceDetails(place.place_id, cache);
+  return details ? { ...place, ...details } : place;
+}
+
 export function formatBusinessHours(openingHours?: { weekday_text: string[] }): string {
   console.log('🕒 Formatting business hours...');
   
@@ -215,43 +220,39 @@ export function formatBusinessTypes(types?: string[]): string {
   return result;
 }
 
+// Radius around the photo's GPS position that Text Search favours (a bias, not a hard limit)
+const PHOTO_BIAS_RADIUS_METERS = 5000;
+
 // Add this to your places.ts file
-export async function getMultiplePlacesOptions(businessName: string, address?: string): Promise<PlacesResult[]> {
+export async function getMultiplePlacesOptions(businessName: string, address?: string, near?: GeoPoint): Promise<PlacesResult[]> {
   try {
     console.log('🗺️ SEARCHING FOR MULTIPLE PLACES OPTIONS');
     console.log('='.repeat(60));
     
-    const query = address ? `${businessName} ${address}` : businessName;
+    const client = getPlacesClient();
+    const query = buildQuery(businessName, address);
     console.log(`🔍 Search query: "${query}"`);
 
-    if (!process.env.GOOGLE_PLACES_API_KEY) {
+    if (!client.isConfigured()) {
       console.error('❌ Google Places API key not configured');
       return [];
     }
 
-    // Text Search
-    const searchUrl = `https://maps.googleapis.com/maps/api/place/textsearch/json?query=${encodeURIComponent(query)}&key=${process.env.GOOGLE_PLACES_API_KEY}`;
-    const searchResponse = await fetch(searchUrl);
-    
-    if (!searchResponse.ok) {
-      console.error('❌ Search request failed:', searchResponse.status);
-      return [];
-    }
-
-    const searchData = await searchResponse.json();
+    // Text Search, biased toward where the photo was taken when it has GPS
+    if (near) console.log(`📍 Biasing results toward ${near.lat.toFixed(5)}, ${near.lng.toFixed(5)}`);
+    const options = await client.searchText(query, {
+      locationBias: near ? { center: near, radiusMeters: PHOTO_BIAS_RADIUS_METERS } : undefined
+    });
 
-    if (searchData.status !== 'OK' || !searchData.results || searchData.results.length === 0) {
+    if (options.length === 0) {
       console.log('❌ No results found');
       return [];
     }
 
-    console.log(`✅ Found ${searchData.results.length} potential locations`);
+    console.log(`✅ Found ${options.length} potential locations`);
 
-    // Return up to 5 options
-    const options = searchData.results.slice(0, 10);
-    
     // Get basic details for each option (we'll get full details only when user selects)
-    const processedOptions = options.map((result: any) => ({
+    const processedOptions: PlacesResult[] = options.map(result => ({
       place_id: result.place_id,
       name: result.name,
       formatted_address: result.formatted_address,
@@ -259,11 +260,14 @@ export async function getMultiplePlacesOptions(businessName: string, address?: s
       types: result.types,
       rating: result.rating,
       user_ratings_total: result.user_ratings_total,
-      business_status: result.business_status
+      business_status: result.business_status,
+      price_level: result.price_level,
+      primary_type: result.primary_type,
+      ...(near && result.geometry?.location ? { distance_meters: Math.round(distanceInMeters(near, result.geometry.location)) } : {})
     }));
 
     console.log('📍 Location options:');
-    processedOptions.forEach((option: { name: any; formatted_address: any; }, index: number) => {
+    processedOptions.forEach((option, index) => {
       console.log(`  ${index + 1}. ${option.name} - ${option.formatted_address}`);
     });
 
@@ -0,0 +1,44 @@
+// src/lib/qr.ts
+import jsQR from 'jsqr';
+import sharp from 'sharp';
+
+// jsQR is happiest when the code spans a decent share of the frame, so large
+// photos are tried at full size first and then scaled down
+const DECODE_WIDTHS = [1600, 800];
+
+async function decodeAtWidth(imageBuffer: Buffer, width: number): Promise<string | null> {
+  const { data, info } = await sharp(imageBuffer)
+    .resize({ width, height: width, fit: 'inside', withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const code = jsQR(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), info.width, info.height, {
+    inversionAttempts: 'attemptBoth'
+  });
+  return code?.data?.trim() || null;
+}
+
+/**
+ * Decode QR codes in an image locally. jsQR reports one code per pass, which
+ * covers the usual single code on a door or counter sign.
+ */
+export async function decodeQrCodes(imageBuffer: Buffer): Promise<string[]> {
+  try {
+    for (const width of DECODE_WIDTHS) {
+      const payload = await decodeAtWidth(imageBuffer, width);
+      if (payload) {
+        console.log(`   QR code decoded at ${width}px: "${payload}"`);
+        return [payload];
+      }
+    }
+    console.log('   QR code detection: none found');
+  } catch (error) {
+    console.warn('⚠️ QR code detection failed:', error instanceof Error ? error.message : error);
+  }
+  return [];
+}
+
+export function isUrlPayload(payload: string): boolean {
+  return /^(?:https?:\/\/|www\.)\S+$/i.test(payload.trim());
+}
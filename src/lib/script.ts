@@ -0,0 +1,106 @@
+// src/lib/script.ts
+
+export type Script = 'latin' | 'cyrillic' | 'arabic' | 'han' | 'hangul' | 'kana' | 'other';
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['latin', /\p{Script=Latin}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['kana', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['han', /\p{Script=Han}/u]
+];
+
+/**
+ * The script most of the letters in the text are written in. Digits,
+ * punctuation and spaces are ignored; text without letters is 'other'.
+ */
+export function dominantScript(text: string): Script {
+  const counts = new Map<Script, number>();
+  for (const char of text) {
+    if (!/\p{L}/u.test(char)) continue;
+    const script = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char))?.[0] || 'other';
+    counts.set(script, (counts.get(script) || 0) + 1);
+  }
+
+  let best: Script = 'other';
+  let bestCount = 0;
+  counts.forEach((count, script) => {
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// No upper/lower case, so capitalization says nothing about whether a line is a name
+export function isCaselessScript(script: Script): boolean {
+  return script === 'han' || script === 'hangul' || script === 'kana' || script === 'arabic';
+}
+
+// One character is a syllable or a word, so names are a few characters long
+export function isDenseScript(script: Script): boolean {
+  return script === 'han' || script === 'hangul' || script === 'kana';
+}
+
+/**
+ * Length of a name in the units its script is read in: characters (without
+ * spaces) for Chinese, Japanese and Korean, otherwise string length.
+ */
+export function nameLength(text: string, script: Script = dominantScript(text)): number {
+  return isDenseScript(script) ? [...text.replace(/\s+/g, '')].length : text.length;
+}
+
+// BGN/PCGN-style romanization, covering Russian, Ukrainian, Belarusian, Bulgarian and Serbian letters
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'yo', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  і: 'i', ї: 'yi', є: 'ye', ґ: 'g', ў: 'w', ј: 'j', љ: 'lj', њ: 'nj', ћ: 'c', ђ: 'dj', џ: 'dz'
+};
+
+// Revised Romanization of Korean, without the sound-change rules between syllables
+const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const HANGUL_MEDIALS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+const HANGUL_FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+
+function romanizeHangulSyllable(char: string): string | null {
+  const code = char.charCodeAt(0);
+  if (code < HANGUL_BASE || code > HANGUL_LAST) return null;
+  const offset = code - HANGUL_BASE;
+  return HANGUL_INITIALS[Math.floor(offset / 588)] + HANGUL_MEDIALS[Math.floor((offset % 588) / 28)] + HANGUL_FINALS[offset % 28];
+}
+
+function transliterateWord(word: string): string {
+  let latin = '';
+  for (const char of word) {
+    const lower = char.toLowerCase();
+    const cyrillic = CYRILLIC_TO_LATIN[lower];
+    if (cyrillic !== undefined) {
+      latin += char !== lower && cyrillic ? cyrillic[0].toUpperCase() + cyrillic.slice(1) : cyrillic;
+      continue;
+    }
+    latin += romanizeHangulSyllable(char) ?? char;
+  }
+
+  // "ПЕКАРНЯ" → "PEKARNYA", "서울식당" → "Seoulsikdang"
+  if (word === word.toUpperCase() && word !== word.toLowerCase()) return latin.toUpperCase();
+  return /\p{Script=Hangul}/u.test(word) ? latin.charAt(0).toUpperCase() + latin.slice(1) : latin;
+}
+
+/**
+ * Latin spelling of a Cyrillic or Korean name, for Places and web searches
+ * where the business is listed in romanized form. Returns null for Latin text
+ * and for Chinese, Japanese and Arabic, which need a dictionary or vowels the
+ * sign does not show; Places searches those scripts as written.
+ */
+export function transliterateName(name: string): string | null {
+  const script = dominantScript(name);
+  if (script !== 'cyrillic' && script !== 'hangul') return null;
+
+  const latin = name.split(/(\s+)/).map(part => /\s/.test(part) ? part : transliterateWord(part)).join('').trim();
+  return latin && latin !== name ? latin : null;
+}
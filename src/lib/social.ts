@@ -0,0 +1,128 @@
+// src/lib/social.ts
+import { SocialPlatform, SocialProfile } from './types';
+
+const PLATFORM_DOMAINS: Record<string, SocialPlatform> = {
+  'facebook.com': 'facebook',
+  'fb.com': 'facebook',
+  'fb.me': 'facebook',
+  'instagram.com': 'instagram',
+  'instagr.am': 'instagram',
+  'tiktok.com': 'tiktok',
+  'twitter.com': 'twitter',
+  'x.com': 'twitter',
+  'youtube.com': 'youtube',
+  'youtu.be': 'youtube',
+  'linkedin.com': 'linkedin'
+};
+
+const PROFILE_URLS: Record<Exclude<SocialPlatform, 'unknown'>, string> = {
+  facebook: 'https://facebook.com/',
+  instagram: 'https://instagram.com/',
+  tiktok: 'https://tiktok.com/@',
+  twitter: 'https://x.com/',
+  youtube: 'https://youtube.com/@',
+  linkedin: 'https://linkedin.com/company/'
+};
+
+// Words printed next to a bare "@handle" that tell us which platform it is
+const PLATFORM_HINTS: [RegExp, SocialPlatform][] = [
+  [/\b(?:instagram|insta|ig)\b/i, 'instagram'],
+  [/\b(?:facebook|fb)\b/i, 'facebook'],
+  [/\btik\s?tok\b/i, 'tiktok'],
+  [/\b(?:twitter|tweet)\b/i, 'twitter'],
+  [/\byoutube\b/i, 'youtube'],
+  [/\blinkedin\b/i, 'linkedin']
+];
+
+// Path segments that are pages of the platform itself, not a business profile
+const RESERVED_PATHS = new Set(['pages', 'pg', 'people', 'company', 'in', 'channel', 'c', 'user', 'profile.php', 'p', 'reel', 'watch', 'share', 'groups']);
+
+const DOMAIN_PATTERN = Object.keys(PLATFORM_DOMAINS).map(domain => domain.replace(/\./g, '\\.')).join('|');
+const SOCIAL_URL_PATTERN = `(?:https?:\\/\\/)?(?:www\\.|m\\.|[a-z]{2}-[a-z]{2}\\.)?(${DOMAIN_PATTERN})((?:\\/[A-Za-z0-9_.@%-]+)*)\\/?`;
+const SOCIAL_URL_REGEX = new RegExp(`\\b${SOCIAL_URL_PATTERN}`, 'gi');
+const SINGLE_SOCIAL_URL_REGEX = new RegExp(`^${SOCIAL_URL_PATTERN}$`, 'i');
+const HANDLE_REGEX = /(?:^|[^A-Za-z0-9_.@/])@([A-Za-z0-9_](?:[A-Za-z0-9_.]{0,28}[A-Za-z0-9_])?)/g;
+
+function platformFromDomain(domain: string): SocialPlatform | null {
+  return PLATFORM_DOMAINS[domain.toLowerCase()] || null;
+}
+
+function buildProfileUrl(platform: SocialPlatform, handle: string): string | undefined {
+  return platform === 'unknown' ? undefined : PROFILE_URLS[platform] + handle;
+}
+
+/**
+ * Turn a social network URL ("instagram.com/joespizza", "https://www.facebook.com/pages/Joes/123")
+ * into a profile. Returns null for non-social URLs and bare platform home pages.
+ */
+export function socialProfileFromUrl(url: string, source: SocialProfile['source'] = 'text'): SocialProfile | null {
+  const match = url.trim().match(SINGLE_SOCIAL_URL_REGEX);
+  if (!match) return null;
+
+  const platform = platformFromDomain(match[1]);
+  if (!platform) return null;
+
+  const segments = match[2].split('/').filter(Boolean);
+  const handleSegment = segments.find(segment => !RESERVED_PATHS.has(segment.toLowerCase()));
+  if (!handleSegment) return null;
+
+  const handle = handleSegment.replace(/^@/, '').replace(/\.+$/, '');
+  if (!handle) return null;
+
+  return {
+    platform,
+    handle,
+    url: buildProfileUrl(platform, handle),
+    source
+  };
+}
+
+export function isSocialUrl(url: string): boolean {
+  const host = url.toLowerCase().replace(/^https?:\/\//, '').replace(/^(?:www\.|m\.)/, '').split('/')[0];
+  return !!platformFromDomain(host);
+}
+
+function inferPlatform(line: string): SocialPlatform {
+  const hint = PLATFORM_HINTS.find(([pattern]) => pattern.test(line));
+  return hint ? hint[1] : 'unknown';
+}
+
+/**
+ * Find social profiles in OCR text: platform URLs and "@handle" mentions.
+ * A bare handle takes its platform from a hint word on the same or previous
+ * line ("Follow us on Instagram"), otherwise it stays 'unknown'.
+ */
+export function extractSocialProfiles(text: string): SocialProfile[] {
+  const profiles: SocialProfile[] = [];
+  const lines = text.split('\n');
+
+  const add = (profile: SocialProfile | null) => {
+    if (!profile) return;
+    const existing = profiles.find(p => p.handle.toLowerCase() === profile.handle.toLowerCase() &&
+      (p.platform === profile.platform || p.platform === 'unknown' || profile.platform === 'unknown'));
+
+    if (!existing) {
+      profiles.push(profile);
+    } else if (existing.platform === 'unknown' && profile.platform !== 'unknown') {
+      existing.platform = profile.platform;
+      existing.url = profile.url;
+    }
+  };
+
+  lines.forEach((line, i) => {
+    for (const match of line.matchAll(SOCIAL_URL_REGEX)) {
+      add(socialProfileFromUrl(match[0]));
+    }
+
+    // Strip URLs first so "tiktok.com/@joes" is not read twice
+    const withoutUrls = line.replace(SOCIAL_URL_REGEX, ' ');
+    for (const match of withoutUrls.matchAll(HANDLE_REGEX)) {
+      const sameLine = inferPlatform(line);
+      const platform = sameLine !== 'unknown' ? sameLine : inferPlatform(lines[i - 1] || '');
+      add({ platform, handle: match[1], url: buildProfileUrl(platform, match[1]), source: 'text' });
+    }
+  });
+
+  console.log(`   Social profile extraction: ${profiles.length} found`);
+  return profiles;
+}
@@ -0,0 +1,143 @@
+// src/lib/text-geometry.ts
+import { OcrVertex, OcrWord } from './ocr';
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProminenceMetrics {
+  matchedWords: number;
+  heightRatio: number;   // candidate glyph height vs. tallest word in the image (0-1)
+  areaRatio: number;     // candidate box area vs. the whole text extent (0-1)
+  centrality: number;    // 1 = centered in the text extent, 0 = at a corner
+}
+
+export function boundsFromVertices(vertices: OcrVertex[]): BoundingBox | null {
+  if (vertices.length === 0) return null;
+
+  const xs = vertices.map(v => v.x);
+  const ys = vertices.map(v => v.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY
+  };
+}
+
+export function unionBounds(boxes: BoundingBox[]): BoundingBox | null {
+  if (boxes.length === 0) return null;
+
+  const minX = Math.min(...boxes.map(b => b.x));
+  const minY = Math.min(...boxes.map(b => b.y));
+  const maxX = Math.max(...boxes.map(b => b.x + b.width));
+  const maxY = Math.max(...boxes.map(b => b.y + b.height));
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}&]/gu, '');
+}
+
+/**
+ * Find the OCR words that make up a candidate name. Prefers a contiguous run of
+ * words matching the candidate's tokens, then a run that spells the candidate
+ * without spaces, and falls back to the first occurrence of each token when the
+ * OCR word order differs from the line order.
+ */
+export function findCandidateWords(candidate: string, words: OcrWord[]): OcrWord[] {
+  const tokens = candidate.split(/\s+/).map(normalizeToken).filter(Boolean);
+  if (tokens.length === 0 || words.length === 0) return [];
+
+  const normalizedWords = words.map(word => normalizeToken(word.text));
+
+  for (let start = 0; start <= normalizedWords.length - tokens.length; start++) {
+    if (tokens.every((token, offset) => normalizedWords[start + offset] === token)) {
+      return words.slice(start, start + tokens.length);
+    }
+  }
+
+  // Chinese, Japanese and Korean signs are read a few characters per word with
+  // no spaces between them, so match a run whose letters spell the candidate
+  const joined = tokens.join('');
+  for (let start = 0; start < normalizedWords.length; start++) {
+    let spelled = '';
+    for (let end = start; end < normalizedWords.length && joined.startsWith(spelled + normalizedWords[end]); end++) {
+      spelled += normalizedWords[end];
+      if (spelled === joined) return words.slice(start, end + 1);
+    }
+  }
+
+  const matched: OcrWord[] = [];
+  const used = new Set<number>();
+  for (const token of tokens) {
+    const index = normalizedWords.findIndex((word, i) => !used.has(i) && word === token);
+    if (index !== -1) {
+      used.add(index);
+      matched.push(words[index]);
+    }
+  }
+  return matched;
+}
+
+/**
+ * Measure how visually prominent a candidate is on the sign: signage names are
+ * usually the tallest, largest text and sit near the middle of the frame.
+ */
+export function measureProminence(candidate: string, words: OcrWord[]): ProminenceMetrics | null {
+  const allBounds = words
+    .map(word => boundsFromVertices(word.vertices))
+    .filter((box): box is BoundingBox => box !== null && box.height > 0);
+  const extent = unionBounds(allBounds);
+  if (!extent || extent.width === 0 || extent.height === 0) return null;
+
+  const candidateBounds = findCandidateWords(candidate, words)
+    .map(word => boundsFromVertices(word.vertices))
+    .filter((box): box is BoundingBox => box !== null && box.height > 0);
+  const candidateBox = unionBounds(candidateBounds);
+  if (!candidateBox) return null;
+
+  const maxHeight = Math.max(...allBounds.map(b => b.height));
+  const averageHeight = candidateBounds.reduce((sum, b) => sum + b.height, 0) / candidateBounds.length;
+
+  const extentCenterX = extent.x + extent.width / 2;
+  const extentCenterY = extent.y + extent.height / 2;
+  const dx = (candidateBox.x + candidateBox.width / 2 - extentCenterX) / (extent.width / 2);
+  const dy = (candidateBox.y + candidateBox.height / 2 - extentCenterY) / (extent.height / 2);
+  const distance = Math.min(1, Math.sqrt(dx * dx + dy * dy) / Math.SQRT2);
+
+  return {
+    matchedWords: candidateBounds.length,
+    heightRatio: averageHeight / maxHeight,
+    areaRatio: Math.min(1, (candidateBox.width * candidateBox.height) / (extent.width * extent.height)),
+    centrality: 1 - distance
+  };
+}
+
+function centerInside(box: BoundingBox, region: BoundingBox): boolean {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  return cx >= region.x && cx <= region.x + region.width && cy >= region.y && cy <= region.y + region.height;
+}
+
+/**
+ * Share (0-1) of a candidate's OCR words whose centre lies inside one of the
+ * regions the user marked on the photo.
+ */
+export function shareInsideRegions(candidate: string, words: OcrWord[], regions: BoundingBox[]): number {
+  if (regions.length === 0) return 0;
+
+  const boxes = findCandidateWords(candidate, words)
+    .map(word => boundsFromVertices(word.vertices))
+    .filter((box): box is BoundingBox => box !== null);
+  if (boxes.length === 0) return 0;
+
+  return boxes.filter(box => regions.some(region => centerInside(box, region))).length / boxes.length;
+}
@@ -1,12 +1,133 @@
 // src/app/lib/types.ts
 
+export type Weekday = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
+
+export interface DailyHours {
+  day: Weekday;
+  closed: boolean;
+  open?: string;  // 24-hour "HH:MM"
+  close?: string; // 24-hour "HH:MM", "24:00" for open all day
+}
+
+export interface PhoneNumber {
+  raw: string;      // As printed on the sign
+  e164: string;     // "+14155550123"
+  display: string;  // National format for the default region, international otherwise
+  country?: string; // ISO 3166-1 alpha-2
+}
+
+export interface PostalAddress {
+  formatted: string;
+  street?: string;     // "123 N Main St"
+  unit?: string;       // "Suite 200"
+  poBox?: string;
+  city?: string;
+  region?: string;     // State or province code
+  postalCode?: string;
+  country?: string;    // ISO 3166-1 alpha-2
+}
+
+export type SocialPlatform = 'facebook' | 'instagram' | 'tiktok' | 'twitter' | 'youtube' | 'linkedin' | 'unknown';
+
+export interface SocialProfile {
+  platform: SocialPlatform; // 'unknown' for a bare "@handle" with no platform named nearby
+  handle: string;
+  url?: string;
+  source: 'text' | 'qr';
+}
+
+export interface NameCandidate {
+  name: string;
+  score: number;
+  strategy: 'context' | 'positional' | 'pattern' | 'logo';
+  sourceLine: string;        // The OCR line(s) the name was built from, joined with " / "
+  lineNumbers: number[];     // 1-based line numbers in the OCR text
+  components: Record<string, number>; // Points per scoring rule (position, keyword, glyphHeight, ...)
+  similar?: string[];        // Later-found candidates that contain or are contained in this one, folded in before sorting by score
+  transliteration?: string;  // Latin spelling of a Cyrillic or Korean name, used as a fallback search
+  imageIndex?: number;       // Which uploaded image it came from, when several were merged
+}
+
+// Fields read from one OCR layout block, so a card's name, title, phone and email stay together
+export interface TextBlock {
+  text: string;
+  bounds?: { x: number; y: number; width: number; height: number }; // Pixels in the normalized image
+  personName?: string;
+  jobTitle?: string;
+  phones: PhoneNumber[];
+  emails: string[];
+  websites: string[];
+  addresses: PostalAddress[];
+  socialProfiles: SocialProfile[];
+  imageIndex?: number;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// When and where a photo was taken, from its EXIF tags
+export interface PhotoMetadata {
+  capturedAt?: string;       // "2024-05-01T12:30:15-04:00"; no offset when the camera did not record one
+  location?: GeoPoint;
+  locationAccuracy?: number; // Meters, when the phone recorded it
+}
+
+// A priced line from a menu or price board
+export interface PriceListItem {
+  name: string;
+  price: number;
+  currency?: string; // Symbol as printed ("$", "€"); missing when the line has none
+  line: string;
+}
+
+export interface PriceList {
+  currency?: string;     // Most common symbol on the list
+  items: PriceListItem[];
+  averagePrice: number;  // Trimmed mean of item prices
+  averageTicket: number; // Estimated spend per order
+}
+
+// A logo or scene label from the optional image-understanding pass
+export interface ImageAnnotation {
+  description: string;
+  score: number; // 0-1
+}
+
+export type WordField = 'name' | 'phone' | 'address' | 'website' | 'email' | 'social' | 'other';
+
+// One OCR word and the extracted field it belongs to, for drawing the read text over the photo
+export interface WordBox {
+  text: string;
+  confidence: number;
+  bounds: { x: number; y: number; width: number; height: number }; // Pixels in the normalized image
+  field: WordField;
+  imageIndex?: number;
+}
+
 export interface ExtractedText {
   businessNames: string[];
+  nameCandidates?: NameCandidate[]; // Ranked candidates behind businessNames, with their scores
   addresses: string[];
-  phoneNumbers: string[];
+  addressComponents?: PostalAddress[];
+  phoneNumbers: string[]; // Display format of `phones`
+  phones?: PhoneNumber[];
   websites: string[];
   emails: string[];
+  socialProfiles?: SocialProfile[];
+  qrCodes?: string[]; // Decoded QR payloads
   otherText: string[];
+  openingHours?: DailyHours[]; // Parsed from hours signage, one entry per mentioned day
+  blocks?: TextBlock[];        // Per-block fields from the OCR layout
+  words?: WordBox[];
+  logos?: ImageAnnotation[];
+  labels?: ImageAnnotation[];
+  categoryHints?: string[];    // Industry categories suggested by logos and labels, strongest first
+  priceList?: PriceList;       // Prices read off a menu or price board
+  capturedAt?: string;         // EXIF capture time of the photo
+  photoLocation?: GeoPoint;    // EXIF GPS position of the photo
+  ocrMode?: 'scene' | 'document';
   confidence: {
     businessName: 'High' | 'Medium' | 'Low';
     address: 'High' | 'Medium' | 'Low';
@@ -14,6 +135,12 @@ export interface ExtractedText {
   };
 }
 
+// Day 0 is Sunday; times are "HHMM" in the place's local time
+export interface PlaceOpeningPeriod {
+  open: { day: number; time: string };
+  close?: { day: number; time: string }; // Missing for places open around the clock
+}
+
 export interface PlacesResult {
   place_id: string;
   name: string;
@@ -23,11 +150,17 @@ export interface PlacesResult {
   business_status?: string;
   opening_hours?: {
     weekday_text: string[];
+    periods?: PlaceOpeningPeriod[];
   };
   rating?: number;
   user_ratings_total?: number;
   price_level?: number;
   types?: string[];
+  primary_type?: string; // Places API (New) only, like the fields below
+  serves_beer?: boolean;
+  takeout?: boolean;
+  price_range?: { currency: string; low?: number; high?: number };
+  distance_meters?: number; // From the photo's GPS position, when it has one
   geometry?: {
     location: {
       lat: number;
@@ -56,15 +189,19 @@ export interface BusinessData {
   businessName: string;
   businessType: string;
   address: string;
+  addressComponents?: PostalAddress;
   phone: string;
+  phoneE164?: string;
   website: string;
   email: string;
+  socialProfiles?: SocialProfile[];
   description: string;
   location: string;
   hours: string;
   rating?: number;
   reviews?: number;
   valuation?: ValuationResult; // NEW: Optional valuation data
+  locationWarning?: string;    // Set when the matched place is far from the photo's GPS position
   ownerInfo: {
     name: string;
     phone: string;
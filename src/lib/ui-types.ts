@@ -24,19 +24,29 @@ export interface ValuationResult {
   comparables?: string[];
 }
 
+export interface SocialProfile {
+  platform: 'facebook' | 'instagram' | 'tiktok' | 'twitter' | 'youtube' | 'linkedin' | 'unknown';
+  handle: string;
+  url?: string;
+  source: 'text' | 'qr';
+}
+
 export interface BusinessData {
   businessName: string;
   businessType: string;
   address: string;
   phone: string;
+  phoneE164?: string;
   website: string;
   email: string;
+  socialProfiles?: SocialProfile[];
   description: string;
   location: string;
   hours: string;
   rating?: number;
   reviews?: number;
   valuation?: ValuationResult;
+  locationWarning?: string;
   ownerInfo: {
     name: string;
     phone: string;
@@ -46,9 +56,33 @@ export interface BusinessData {
 
 export type CurrentStep = 'upload' | 'processing' | 'results';
 
+export type OcrModePreference = 'auto' | 'scene' | 'document';
+
+export type RegionMode = 'crop' | 'weight';
+
+export interface ImageRegion {
+  x: number; // Fractions (0-1) of the rotated image
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageAdjustments {
+  rotation: 0 | 90 | 180 | 270;
+  regions: ImageRegion[];
+}
+
 export interface FileUploadProps {
-  selectedFile: File | null;
-  onFileSelect: (file: File | null) => void;
+  selectedFiles: File[];
+  onFilesSelect: (files: File[]) => void;
+  ocrMode: OcrModePreference;
+  onOcrModeChange: (mode: OcrModePreference) => void;
+  imageAdjustments: Map<File, ImageAdjustments>;
+  onImageAdjustmentsChange: (file: File, adjustments: ImageAdjustments) => void;
+  regionMode: RegionMode;
+  onRegionModeChange: (mode: RegionMode) => void;
+  signLanguage: string;
+  onSignLanguageChange: (language: string) => void;
   onProcess: () => Promise<void>;
   onManualSubmit?: (businessName: string) => Promise<void>;
   error: string | null;
@@ -62,12 +96,50 @@ export interface ProcessingViewProps {
 export interface BusinessResultsProps {
   businessData: BusinessData;
   onReset: () => void;
+  onChangeLocation?: () => void; // Set when other locations matched too; reopens the location selector
 }
 
+export interface NameCandidate {
+  name: string;
+  score: number;
+  strategy: 'context' | 'positional' | 'pattern' | 'logo';
+  sourceLine: string;
+  lineNumbers: number[];
+  components: Record<string, number>;
+  similar?: string[]; // Later-found candidates that contain or are contained in this one, folded in before sorting by score
+  transliteration?: string;
+  imageIndex?: number;
+}
+
+export type WordField = 'name' | 'phone' | 'address' | 'website' | 'email' | 'social' | 'other';
+
+export interface WordBox {
+  text: string;
+  confidence: number;
+  bounds: { x: number; y: number; width: number; height: number }; // Pixels in the OCR image
+  field: WordField;
+  imageIndex?: number;
+}
+
+// An image OCR read, as returned in /api/extract-text metadata.images
+export interface OcrImagePreview {
+  filename: string;
+  preview?: string; // JPEG data URL
+  width: number;    // Size of the OCR image the word boxes refer to
+  height: number;
+}
+
+// Fields the user can fix by clicking words in the OCR overlay
+export type CorrectableField = 'name' | 'phone' | 'address' | 'website';
+
 // New interface for business name confirmation
 export interface BusinessNameConfirmationProps {
   extractedNames: string[];
+  nameCandidates?: NameCandidate[];
+  words?: WordBox[];
+  ocrImages?: OcrImagePreview[];
   confidence: 'High' | 'Medium' | 'Low';
   onConfirm: (businessName: string) => void;
+  onFieldCorrection?: (field: Exclude<CorrectableField, 'name'>, value: string) => void;
   onRetry: () => void;
 }
\ No newline at end of file
@@ -0,0 +1,6 @@
+// src/lib/upload-limits.ts
+// Shared by the upload form and the API routes, so this module must stay free of server-only imports
+
+export const MAX_IMAGE_SIZE = 25 * 1024 * 1024; // 25MB, large images are downscaled before OCR
+// Several photos of the same business (storefront, hours, menu, card) can be analyzed together
+export const MAX_IMAGES_PER_BUSINESS = 8;
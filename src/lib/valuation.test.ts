@@ -0,0 +1,23 @@
+// src/lib/valuation.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { categorizeBusinessIndustry } from './valuation';
+
+describe('categorizeBusinessIndustry', () => {
+  it('matches keywords as whole words only', () => {
+    assert.equal(categorizeBusinessIndustry("Joe's Barber Shop"), 'Beauty & Personal Care');
+    assert.equal(categorizeBusinessIndustry('Barbería El Güero'), 'Beauty & Personal Care');
+    assert.equal(categorizeBusinessIndustry('Barbearia Lisboa'), 'Beauty & Personal Care');
+    assert.equal(categorizeBusinessIndustry('Spanish Books'), 'Non-Classifiable Establishments');
+  });
+
+  it('still finds short keywords standing on their own', () => {
+    assert.equal(categorizeBusinessIndustry('Corner Bar & Grill'), 'Restaurants & Food');
+    assert.equal(categorizeBusinessIndustry('Day Spa'), 'Beauty & Personal Care');
+  });
+
+  it('prefers Places types, then photo hints, over keywords in the name', () => {
+    assert.equal(categorizeBusinessIndustry("Joe's Barber Shop", ['restaurant']), 'Restaurants & Food');
+    assert.equal(categorizeBusinessIndustry('Spanish Books', undefined, ['Retail']), 'Retail');
+  });
+});
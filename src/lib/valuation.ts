@@ -1,5 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // src/app/lib/valuation.ts
+import { formatDistance } from './geo';
+import { findIndustryByKeyword } from './keywords';
 
 export interface ValuationFactors {
   businessType: string;
@@ -10,9 +12,18 @@ export interface ValuationFactors {
   hasWebsite: boolean;
   webPresenceQuality: 'poor' | 'average' | 'good' | 'excellent';
   locationQuality: 'poor' | 'average' | 'good' | 'excellent';
+  locationScore?: number;        // 0-100 foot-traffic proxy from nearby anchors, when measured
+  locationExplanation?: string;  // What the score is based on
   equipmentQuality: 'basic' | 'average' | 'good' | 'excellent';
   businessSize: 'micro' | 'small' | 'medium' | 'large';
   operatingHours: 'limited' | 'standard' | 'extended';
+  averageTicket?: number;    // Estimated spend per order from a photographed menu or price board
+  ticketCurrency?: string;   // Currency symbol printed on the menu
+  placesPriceLevel?: number; // Google Places price_level (0-4)
+  competitorCount?: number;          // Same-type places within competitionRadiusMeters
+  competitorAverageRating?: number;
+  nearestCompetitorMeters?: number;
+  competitionRadiusMeters?: number;
 }
 
 export interface ValuationResult {
@@ -106,9 +117,44 @@ const RATING_MULTIPLIERS = {
   2.0: 0.8   // Poor reputation
 };
 
+// Average ticket (in dollars) from which a business prices like Google price level 2, 3 and 4
+const PRICE_LEVEL_TICKETS: Record<string, number[]> = {
+  'restaurants_food': [15, 35, 70],
+  'beauty_personal_care': [30, 80, 150],
+  'default': [25, 75, 200]
+};
+
+// Indexed by price level: pricier tickets mean more revenue per customer
+const PRICE_LEVEL_MULTIPLIERS = [0.95, 0.95, 1.0, 1.1, 1.2];
+
+// Competitor counts from which a market is thin or crowded, within the search radius
+const FEW_COMPETITORS = 3;
+const MANY_COMPETITORS = 10;
+
+// A same-type shop this close splits walk-in traffic
+const NEXT_DOOR_COMPETITOR_METERS = 100;
+
+// Rating gap to the competitors' average that customers notice
+const RATING_GAP = 0.3;
+
+interface CompetitionAssessment {
+  density: 'none' | 'few' | 'moderate' | 'crowded';
+  ratingComparison?: 'better' | 'similar' | 'worse';
+  nextDoor: boolean;
+  multiplier: number;
+}
+
+interface RevenueProxy {
+  averageTicket: number;
+  priceLevel: number;        // Level used for the multiplier
+  menuPriceLevel: number;    // Level implied by the menu alone
+  agreesWithPlaces?: boolean;
+  multiplier: number;
+}
+
 // Add this improved categorization function to your valuation.ts
 
-export function categorizeBusinessIndustry(businessType: string, placesTypes?: string[]): string {
+export function categorizeBusinessIndustry(businessType: string, placesTypes?: string[], categoryHints?: string[]): string {
   const type = businessType.toLowerCase();
   
   // Check places types first for more accurate categorization
@@ -121,69 +167,16 @@ export function categorizeBusinessIndustry(businessType: string, placesTypes?: s
     }
   }
   
-  // Enhanced food-related keyword detection
-  const foodKeywords = [
-    'food', 'restaurant', 'cafe', 'coffee', 'pizza', 'burger', 'bar', 'grill',
-    'kitchen', 'dining', 'eatery', 'bistro', 'deli', 'bakery', 'market',
-    'food park', 'food court', 'food truck', 'catering', 'barbecue', 'bbq'
-  ];
-  
-  const retailKeywords = [
-    'store', 'shop', 'retail', 'market', 'boutique', 'outlet', 'mall', 'plaza'
-  ];
-  
-  const serviceKeywords = [
-    'service', 'repair', 'consulting', 'cleaning', 'maintenance', 'support'
-  ];
-
-  // Check for food-related businesses first (most common in images)
-  if (foodKeywords.some(keyword => type.includes(keyword))) {
-    return 'Restaurants & Food';
+  // Logos and labels seen in the photo (a pizza oven, a barber pole) beat keywords in the name
+  if (categoryHints && categoryHints.length > 0) {
+    return categoryHints[0];
   }
   
-  // Check for retail businesses
-  if (retailKeywords.some(keyword => type.includes(keyword))) {
-    return 'Retail';
-  }
-  
-  // Check for automotive businesses
-  if (type.includes('auto') || type.includes('car') || type.includes('vehicle') || type.includes('boat')) {
-    return 'Automotive & Boat';
-  }
-  
-  // Check for beauty businesses
-  if (type.includes('beauty') || type.includes('salon') || type.includes('spa') || type.includes('hair')) {
-    return 'Beauty & Personal Care';
-  }
-  
-  // Check for construction businesses
-  if (type.includes('construction') || type.includes('contractor') || type.includes('building')) {
-    return 'Building & Construction';
-  }
-  
-  // Check for health/fitness businesses
-  if (type.includes('medical') || type.includes('health') || type.includes('dental') || type.includes('fitness') || type.includes('gym')) {
-    return 'Health Care & Fitness';
-  }
-  
-  // Check for technology businesses
-  if (type.includes('tech') || type.includes('software') || type.includes('online') || type.includes('digital') || type.includes('app') || type.includes('web') || type.includes('internet')) {
-    return 'Online & Technology';
-  }
-  
-  // Check for service businesses
-  if (serviceKeywords.some(keyword => type.includes(keyword))) {
-    return 'Service Businesses';
-  }
-  
-  // Check for financial businesses
-  if (type.includes('financial') || type.includes('accounting') || type.includes('insurance')) {
-    return 'Financial Services';
-  }
-  
-  // Check for entertainment businesses
-  if (type.includes('entertainment') || type.includes('recreation') || type.includes('gaming')) {
-    return 'Entertainment & Recreation';
+  // Keyword lists for every supported locale live in src/data/business-keywords.json;
+  // whole words only, so "Barbería" is not a bar and "Spanish Books" not a spa
+  const keywordCategory = findIndustryByKeyword(type);
+  if (keywordCategory) {
+    return keywordCategory;
   }
   
   return 'Non-Classifiable Establishments';
@@ -241,6 +234,68 @@ function findIndustryMatch(businessCategory: string): string {
   return categoryKey || 'default';
 }
 
+/**
+ * Use the menu's average ticket as a revenue-per-customer proxy, cross-checked
+ * against the Places price level. When the two are two or more levels apart,
+ * the level between them is used.
+ */
+function assessRevenueProxy(factors: ValuationFactors, industryKey: string): RevenueProxy | null {
+  if (!factors.averageTicket) return null;
+  if (factors.ticketCurrency && factors.ticketCurrency !== '$') {
+    console.log(`💲 Skipping menu pricing: ticket bands are in dollars, menu is in ${factors.ticketCurrency}`);
+    return null;
+  }
+
+  const bands = PRICE_LEVEL_TICKETS[industryKey] || PRICE_LEVEL_TICKETS.default;
+  const menuPriceLevel = 1 + bands.filter(ticket => factors.averageTicket! >= ticket).length;
+
+  let priceLevel = menuPriceLevel;
+  let agreesWithPlaces: boolean | undefined;
+  if (factors.placesPriceLevel !== undefined) {
+    agreesWithPlaces = Math.abs(menuPriceLevel - factors.placesPriceLevel) <= 1;
+    if (!agreesWithPlaces) priceLevel = Math.round((menuPriceLevel + factors.placesPriceLevel) / 2);
+  }
+
+  console.log(`💲 Menu ticket $${factors.averageTicket} → price level ${menuPriceLevel}` +
+    (factors.placesPriceLevel !== undefined ? ` (Places: ${factors.placesPriceLevel}, ${agreesWithPlaces ? 'agrees' : 'conflicts'})` : ''));
+
+  return {
+    averageTicket: factors.averageTicket,
+    priceLevel,
+    menuPriceLevel,
+    agreesWithPlaces,
+    multiplier: PRICE_LEVEL_MULTIPLIERS[priceLevel]
+  };
+}
+
+/**
+ * Weigh nearby same-type competitors: a thin market and a better rating than
+ * the competition add value, a crowded one or a competitor next door subtract.
+ */
+function assessCompetition(factors: ValuationFactors): CompetitionAssessment | null {
+  if (factors.competitorCount === undefined) return null;
+
+  const count = factors.competitorCount;
+  const density = count === 0 ? 'none' : count <= FEW_COMPETITORS ? 'few' : count <= MANY_COMPETITORS ? 'moderate' : 'crowded';
+  let multiplier = density === 'none' ? 1.1 : density === 'few' ? 1.05 : density === 'moderate' ? 1.0 : 0.9;
+
+  const nextDoor = factors.nearestCompetitorMeters !== undefined && factors.nearestCompetitorMeters <= NEXT_DOOR_COMPETITOR_METERS;
+  if (nextDoor) multiplier *= 0.95;
+
+  let ratingComparison: CompetitionAssessment['ratingComparison'];
+  if (factors.rating && factors.competitorAverageRating) {
+    const gap = factors.rating - factors.competitorAverageRating;
+    ratingComparison = gap >= RATING_GAP ? 'better' : gap <= -RATING_GAP ? 'worse' : 'similar';
+    if (ratingComparison === 'better') multiplier *= 1.05;
+    if (ratingComparison === 'worse') multiplier *= 0.95;
+  }
+
+  console.log(`🏪 Competition: ${count} nearby (${density})${nextDoor ? ', one next door' : ''}` +
+    (ratingComparison ? `, rated ${ratingComparison} than average ${factors.competitorAverageRating}` : ''));
+
+  return { density, ratingComparison, nextDoor, multiplier };
+}
+
 export function estimateBusinessValue(factors: ValuationFactors): ValuationResult {
   console.log('🏷️ Starting business valuation with factors:', factors);
 
@@ -301,13 +356,23 @@ export function estimateBusinessValue(factors: ValuationFactors): ValuationResul
     factors.operatingHours === 'standard' ? 1.0 : 0.9;
   baseValue *= hoursMultiplier;
 
+  // 9. Revenue proxy from menu prices
+  const revenueProxy = assessRevenueProxy(factors, industryKey);
+  const revenueMultiplier = revenueProxy?.multiplier ?? 1.0;
+  baseValue *= revenueMultiplier;
+
+  // 10. Local competition
+  const competition = assessCompetition(factors);
+  const competitionMultiplier = competition?.multiplier ?? 1.0;
+  baseValue *= competitionMultiplier;
+
   // Calculate range (typically ±20-30% for small businesses)
   const midValue = Math.round(baseValue);
   const lowValue = Math.round(midValue * 0.7);
   const highValue = Math.round(midValue * 1.3);
 
   // Determine confidence level
-  const confidence = calculateConfidence(factors);
+  const confidence = calculateConfidence(factors, revenueProxy);
 
   // Generate valuation factors explanation
   const valuationFactors = generateValuationFactors(factors, {
@@ -317,8 +382,10 @@ export function estimateBusinessValue(factors: ValuationFactors): ValuationResul
     webMultiplier,
     equipmentMultiplier,
     sizeMultiplier,
-    hoursMultiplier
-  });
+    hoursMultiplier,
+    revenueMultiplier,
+    competitionMultiplier
+  }, revenueProxy, competition);
 
   const result: ValuationResult = {
     estimatedValue: {
@@ -328,7 +395,7 @@ export function estimateBusinessValue(factors: ValuationFactors): ValuationResul
     },
     confidence,
     factors: valuationFactors,
-    methodology: `Valuation based on industry multiples for ${industryKey} businesses, adjusted for location quality, reputation, business age, web presence, and operational factors.`,
+    methodology: `Valuation based on industry multiples for ${industryKey} businesses, adjusted for location quality, reputation, business age, web presence, ${revenueProxy ? 'menu pricing, ' : ''}${competition ? 'local competition, ' : ''}and operational factors.`,
     comparables: generateComparables(factors.businessType)
   };
 
@@ -350,7 +417,7 @@ function getRatingMultiplier(rating: number): number {
   return RATING_MULTIPLIERS[2.0];
 }
 
-function calculateConfidence(factors: ValuationFactors): 'low' | 'medium' | 'high' {
+function calculateConfidence(factors: ValuationFactors, revenueProxy: RevenueProxy | null): 'low' | 'medium' | 'high' {
   let score = 0;
   
   // Rating data availability and quality
@@ -371,25 +438,41 @@ function calculateConfidence(factors: ValuationFactors): 'low' | 'medium' | 'hig
   // Location data quality
   if (factors.locationQuality === 'good' || factors.locationQuality === 'excellent') score += 1;
   
+  // Menu prices that agree with Google's price level
+  if (revenueProxy?.agreesWithPlaces) score += 1;
+  
   if (score >= 5) return 'high';
   if (score >= 3) return 'medium';
   return 'low';
 }
 
-function generateValuationFactors(factors: ValuationFactors, multipliers: any) {
+function generateValuationFactors(
+  factors: ValuationFactors,
+  multipliers: any,
+  revenueProxy: RevenueProxy | null,
+  competition: CompetitionAssessment | null
+) {
   const result = [];
   
   if (multipliers.locationMultiplier > 1.1) {
     result.push({
       factor: 'Prime Location',
       impact: 'positive' as const,
-      description: `Excellent location increases value by ${Math.round((multipliers.locationMultiplier - 1) * 100)}%`
+      description: `Excellent location increases value by ${Math.round((multipliers.locationMultiplier - 1) * 100)}%` +
+        (factors.locationScore !== undefined ? ` (score ${factors.locationScore}/100: ${factors.locationExplanation})` : '')
     });
   } else if (multipliers.locationMultiplier < 0.9) {
     result.push({
       factor: 'Poor Location',
       impact: 'negative' as const,
-      description: `Below-average location reduces value by ${Math.round((1 - multipliers.locationMultiplier) * 100)}%`
+      description: `Below-average location reduces value by ${Math.round((1 - multipliers.locationMultiplier) * 100)}%` +
+        (factors.locationScore !== undefined ? ` (score ${factors.locationScore}/100: ${factors.locationExplanation})` : '')
+    });
+  } else if (factors.locationScore !== undefined) {
+    result.push({
+      factor: 'Location',
+      impact: 'neutral' as const,
+      description: `Location score ${factors.locationScore}/100: ${factors.locationExplanation}`
     });
   }
   
@@ -417,6 +500,59 @@ function generateValuationFactors(factors: ValuationFactors, multipliers: any) {
     });
   }
   
+  if (revenueProxy) {
+    const ticket = `$${revenueProxy.averageTicket.toLocaleString()}`;
+    if (revenueProxy.agreesWithPlaces === false) {
+      result.push({
+        factor: 'Menu Pricing Unconfirmed',
+        impact: 'neutral' as const,
+        description: `Menu suggests an average ticket of ${ticket} (price level ${revenueProxy.menuPriceLevel}), but Google lists price level ${factors.placesPriceLevel}`
+      });
+    } else {
+      result.push({
+        factor: 'Menu Pricing',
+        impact: multipliers.revenueMultiplier > 1 ? 'positive' as const : multipliers.revenueMultiplier < 1 ? 'negative' as const : 'neutral' as const,
+        description: `Average ticket of about ${ticket} from menu prices${revenueProxy.agreesWithPlaces ? ', consistent with Google price level' : ''}`
+      });
+    }
+  }
+  
+  if (competition) {
+    const area = `within ${factors.competitionRadiusMeters ? formatDistance(factors.competitionRadiusMeters) : 'walking distance'}`;
+    if (competition.density === 'none' || competition.density === 'few') {
+      result.push({
+        factor: 'Little Competition',
+        impact: 'positive' as const,
+        description: competition.density === 'none'
+          ? `No similar businesses ${area}`
+          : `Only ${factors.competitorCount} similar business${factors.competitorCount === 1 ? '' : 'es'} ${area}`
+      });
+    } else if (competition.density === 'crowded') {
+      result.push({
+        factor: 'Crowded Market',
+        impact: 'negative' as const,
+        description: `${factors.competitorCount} similar businesses ${area} compete for the same customers`
+      });
+    }
+
+    if (competition.nextDoor) {
+      result.push({
+        factor: 'Competitor Next Door',
+        impact: 'negative' as const,
+        description: `The nearest similar business is ${formatDistance(factors.nearestCompetitorMeters!)} away`
+      });
+    }
+
+    if (competition.ratingComparison === 'better' || competition.ratingComparison === 'worse') {
+      const better = competition.ratingComparison === 'better';
+      result.push({
+        factor: better ? 'Outrates Competitors' : 'Outrated by Competitors',
+        impact: better ? 'positive' as const : 'negative' as const,
+        description: `Rated ${factors.rating} against a ${factors.competitorAverageRating} average for nearby competitors`
+      });
+    }
+  }
+  
   if (factors.equipmentQuality === 'excellent') {
     result.push({
       factor: 'Quality Equipment/Assets',
@@ -1,80 +1,107 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // src/app/lib/enhanced-vision.ts
-import vision from '@google-cloud/vision';
-import { ExtractedText } from './types';
-
-// Initialize client with proper error handling
-function createVisionClient() {
-  // Check if we're in production/Vercel
-  if (process.env.VERCEL || process.env.NODE_ENV === 'production') {
-    console.log('🏗️ Initializing Vision client for production...');
-    
-    // Verify all required environment variables exist
-    if (!process.env.GOOGLE_CLOUD_PROJECT_ID || !process.env.GOOGLE_CLIENT_EMAIL || !process.env.GOOGLE_PRIVATE_KEY) {
-      throw new Error('Missing required Google Cloud environment variables');
-    }
-    
-    console.log(`   - Project ID: ${process.env.GOOGLE_CLOUD_PROJECT_ID}`);
-    console.log(`   - Client Email: ${process.env.GOOGLE_CLIENT_EMAIL}`);
-    console.log(`   - Private Key: ${process.env.GOOGLE_PRIVATE_KEY ? 'SET (length: ' + process.env.GOOGLE_PRIVATE_KEY.length + ')' : 'NOT SET'}`);
-    
-    return new vision.ImageAnnotatorClient({
-      projectId: process.env.GOOGLE_CLOUD_PROJECT_ID,
-      credentials: {
-        client_email: process.env.GOOGLE_CLIENT_EMAIL,
-        private_key: process.env.GOOGLE_PRIVATE_KEY.replace(/\\n/g, '\n'),
-        type: 'service_account'
-      }
-    });
-  } else {
-    console.log('🏗️ Initializing Vision client for local development...');
-    
-    // For local development, use the credentials file
-    if (!process.env.GOOGLE_APPLICATION_CREDENTIALS) {
-      throw new Error('GOOGLE_APPLICATION_CREDENTIALS not set for local development');
-    }
-    
-    console.log(`   - Credentials file: ${process.env.GOOGLE_APPLICATION_CREDENTIALS}`);
-    
-    return new vision.ImageAnnotatorClient();
-  }
+import { ExtractedText, NameCandidate, PostalAddress, SocialProfile, TextBlock, WordBox, WordField } from './types';
+import { getOcrProvider, OcrBlock, OcrModePreference, OcrProvider, OcrResult, OcrWord } from './ocr';
+import { extractAddresses } from './address';
+import { extractOpeningHours } from './hours';
+import { parsePriceLines, summarizePriceList } from './menu';
+import { extractPhoneNumbers } from './phone';
+import { decodeQrCodes, isUrlPayload } from './qr';
+import { extractSocialProfiles, isSocialUrl, socialProfileFromUrl } from './social';
+import { containsKeywordWords, findNameKeyword, foldKeywordText, getBusinessKeywords } from './keywords';
+import { boundsFromVertices, BoundingBox, findCandidateWords, measureProminence, shareInsideRegions } from './text-geometry';
+import { dominantScript, isCaselessScript, isDenseScript, nameLength, transliterateName } from './script';
+
+type ScoreComponents = Record<string, number>;
+
+// A strategy's raw candidate: the name and the cleaned lines it was built from
+interface CandidateSource {
+  name: string;
+  lines: number[];
+}
+
+// Candidates kept for the explanation returned by /api/extract-text
+const MAX_EXPLAINED_CANDIDATES = 10;
+
+// Bonus for a candidate read entirely inside a region the user marked (weighted region mode)
+const FOCUS_REGION_SCORE = 12;
+
+// Chinese, Korean and Arabic signs have no lowercase to contrast with, so score them like all caps
+const CASELESS_FORMAT_SCORE = 5;
+
+export interface EnhancedVisionOptions {
+  focusRegions?: BoundingBox[]; // Pixel regions of the image whose text should win
+  languageHints?: string[];     // Passed to the OCR provider
+}
+
+// Job titles on business cards (matched against accent-folded, lowercase text)
+const JOB_TITLE_REGEX = /\b(?:co-?owner|owner|co-?founder|founder|ceo|cfo|coo|cto|president|vice president|vp|director|general manager|manager|partner|principal|head chef|chef|broker|agent|realtor|consultant|sales|representative|associate|attorney|propietari[oa]|duen[oa]|gerente|directora?|fundadora?|encargad[oa]|directeur|directrice|gerante?|fondat(?:eur|rice)|proprietaire|responsable)\b/;
+
+/**
+ * Signage is sparse and scene detection reads it best; cards, menus and flyers
+ * are dense enough that the document layout is worth a second request.
+ */
+function looksLikeDocument(ocr: OcrResult): boolean {
+  const lines = ocr.fullText.split('\n').filter(line => line.trim().length > 0);
+  const hasContactDetails = /@|www\.|https?:\/\//i.test(ocr.fullText);
+  return ocr.words.length >= 40 || (lines.length >= 6 && hasContactDetails);
 }
 
-const client = createVisionClient();
+async function detectTextForMode(
+  imageBuffer: Buffer,
+  provider: OcrProvider,
+  mode: OcrModePreference,
+  languageHints: string[]
+): Promise<OcrResult> {
+  if (mode !== 'auto') {
+    return provider.detectText(imageBuffer, { mode, languageHints });
+  }
+
+  const ocr = await provider.detectText(imageBuffer, { mode: 'scene', languageHints });
+  if (ocr.mode === 'scene' && looksLikeDocument(ocr)) {
+    console.log('📄 Dense text detected, re-running OCR in document mode');
+    return provider.detectText(imageBuffer, { mode: 'document', languageHints });
+  }
+  return ocr;
+}
 
-export async function extractTextWithEnhancedVision(imageBuffer: Buffer): Promise<ExtractedText> {
+export async function extractTextWithEnhancedVision(
+  imageBuffer: Buffer,
+  provider: OcrProvider = getOcrProvider(),
+  mode: OcrModePreference = 'auto',
+  options: EnhancedVisionOptions = {}
+): Promise<ExtractedText> {
+  const focusRegions = options.focusRegions || [];
+  const languageHints = options.languageHints || [];
   try {
     console.log('🔍 STARTING ENHANCED VISION OCR');
     console.log('='.repeat(80));
     console.log(`📷 Image buffer size: ${imageBuffer.length} bytes`);
+    console.log(`🔧 OCR provider: ${provider.name} (mode: ${mode}${languageHints.length ? `, languages: ${languageHints.join(', ')}` : ''})`);
+    if (focusRegions.length > 0) {
+      console.log(`🎯 Weighting text inside ${focusRegions.length} marked region(s)`);
+    }
     
-    const [result] = await client.textDetection({
-      image: { content: imageBuffer },
-    });
-    
-    const detections = result.textAnnotations || [];
-    console.log(`📊 Google Vision returned ${detections.length} text detections`);
+    const ocr = await detectTextForMode(imageBuffer, provider, mode, languageHints);
+    const qrCodes = await decodeQrCodes(imageBuffer);
     
-    if (detections.length === 0) {
+    if (ocr.words.length === 0 && !ocr.fullText.trim() && qrCodes.length === 0) {
       console.log('❌ No text detected in image');
       throw new Error('No text detected in image');
     }
 
-    // Log the full text detection (first element)
-    const fullText = detections[0]?.description || '';
+    const fullText = ocr.fullText;
     console.log('\n📄 RAW OCR FULL TEXT:');
     console.log('-'.repeat(40));
     console.log(`"${fullText}"`);
     console.log('-'.repeat(40));
     
     // Log individual word detections with positions and confidence
-    const wordDetections = detections.slice(1);
-    console.log(`\n📋 INDIVIDUAL WORD DETECTIONS (${wordDetections.length} words):`);
-    wordDetections.forEach((detection, index) => {
-      const word = detection.description;
-      const confidence = detection.confidence || 0;
-      const vertices = detection.boundingPoly?.vertices || [];
-      const hasPosition = vertices.length > 0;
+    console.log(`\n📋 INDIVIDUAL WORD DETECTIONS (${ocr.words.length} words):`);
+    ocr.words.forEach((detection, index) => {
+      const word = detection.text;
+      const confidence = detection.confidence;
+      const hasPosition = detection.vertices.length > 0;
       
       console.log(`  ${(index + 1).toString().padStart(2, ' ')}. "${word}" (confidence: ${confidence.toFixed(3)}, position: ${hasPosition ? 'YES' : 'NO'})`);
     });
@@ -82,20 +109,38 @@ export async function extractTextWithEnhancedVision(imageBuffer: Buffer): Promis
     // Enhanced business name extraction with context awareness
     console.log('\n🏢 STARTING BUSINESS NAME EXTRACTION');
     console.log('='.repeat(50));
-    const businessNames = extractBusinessNamesWithContext(fullText);
+    const nameCandidates = extractBusinessNamesWithContext(fullText, ocr.words, focusRegions);
+    const businessNames = nameCandidates.slice(0, 3).map(candidate => candidate.name);
     
     console.log('\n🔍 EXTRACTING OTHER INFORMATION');
     console.log('-'.repeat(30));
-    const addresses = extractAddresses(fullText);
-    const phoneNumbers = extractPhoneNumbers(fullText);
-    const websites = extractWebsites(fullText);
+    const addressComponents = extractAddresses(fullText);
+    const addresses = addressComponents.map(address => address.formatted);
+    const phones = extractPhoneNumbers(fullText);
+    const phoneNumbers = phones.map(phone => phone.display);
     const emails = extractEmails(fullText);
+    const socialProfiles = extractSocialProfiles(fullText.replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, ' '));
+    // Social profile links are not the business's own website
+    const websites = extractWebsites(fullText).filter(site => !isSocialUrl(site));
+
+    // A QR code pointing at a profile or site stands in for one printed on the sign
+    qrCodes.filter(isUrlPayload).forEach(payload => {
+      const profile = socialProfileFromUrl(payload, 'qr');
+      if (profile) {
+        if (!socialProfiles.some(p => p.platform === profile.platform && p.handle.toLowerCase() === profile.handle.toLowerCase())) {
+          socialProfiles.push(profile);
+        }
+      } else if (!websites.includes(payload)) {
+        websites.push(payload);
+      }
+    });
+    const openingHours = extractOpeningHours(fullText);
     
     console.log(`📍 Addresses found: ${addresses.length}`);
-    addresses.forEach((addr, i) => console.log(`  ${i + 1}. "${addr}"`));
+    addressComponents.forEach((addr, i) => console.log(`  ${i + 1}. "${addr.formatted}"`, addr));
     
     console.log(`📞 Phone numbers found: ${phoneNumbers.length}`);
-    phoneNumbers.forEach((phone, i) => console.log(`  ${i + 1}. "${phone}"`));
+    phones.forEach((phone, i) => console.log(`  ${i + 1}. "${phone.display}" (${phone.e164}, read as "${phone.raw}")`));
     
     console.log(`🌐 Websites found: ${websites.length}`);
     websites.forEach((site, i) => console.log(`  ${i + 1}. "${site}"`));
@@ -103,22 +148,63 @@ export async function extractTextWithEnhancedVision(imageBuffer: Buffer): Promis
     console.log(`📧 Emails found: ${emails.length}`);
     emails.forEach((email, i) => console.log(`  ${i + 1}. "${email}"`));
     
+    console.log(`📱 Social profiles found: ${socialProfiles.length}`);
+    socialProfiles.forEach((profile, i) => console.log(`  ${i + 1}. ${profile.platform}: "${profile.handle}" (from ${profile.source})`));
+    
+    console.log(`🔳 QR codes found: ${qrCodes.length}`);
+    qrCodes.forEach((payload, i) => console.log(`  ${i + 1}. "${payload}"`));
+    
+    console.log(`🕒 Opening hours found: ${openingHours.length} days`);
+    openingHours.forEach(entry => console.log(`  ${entry.day}: ${entry.closed ? 'Closed' : `${entry.open}-${entry.close}`}`));
+    
     const otherText = fullText.split('\n').filter(line => 
       line.trim().length > 0 && 
-      !phoneNumbers.some(phone => line.includes(phone)) &&
+      !phones.some(phone => line.includes(phone.raw)) &&
       !websites.some(website => line.includes(website)) &&
-      !emails.some(email => line.includes(email))
+      !emails.some(email => line.includes(email)) &&
+      !socialProfiles.some(profile => profile.source === 'text' && line.toLowerCase().includes(profile.handle.toLowerCase()))
     );
 
-    const confidence = calculateSmartConfidence(detections, businessNames);
+    const priceList = summarizePriceList(parsePriceLines(otherText));
+    if (priceList) {
+      console.log(`💲 Price list: ${priceList.items.length} items, average ${priceList.currency || ''}${priceList.averagePrice}, ticket ~${priceList.currency || ''}${priceList.averageTicket}`);
+    }
+
+    // Per-block fields only make sense when the layout is a real document layout
+    const blocks = ocr.mode === 'document' ? extractBlockFields(ocr.blocks) : [];
+    if (blocks.length > 0) {
+      console.log(`🧱 Document blocks: ${blocks.length}`);
+      blocks.forEach((block, i) => console.log(`  ${i + 1}. ${block.personName ? `${block.personName}${block.jobTitle ? ` (${block.jobTitle})` : ''} ` : ''}${block.phones.length} phones, ${block.emails.length} emails: "${block.text.replace(/\n/g, ' / ')}"`));
+    }
+
+    const words = labelWords(ocr.words, {
+      name: businessNames[0],
+      phones: phones.map(phone => phone.raw),
+      addresses: addressComponents,
+      websites,
+      emails,
+      socialProfiles
+    });
+
+    const confidence = calculateSmartConfidence(ocr, businessNames);
 
     const result_data = {
       businessNames,
+      nameCandidates: nameCandidates.slice(0, MAX_EXPLAINED_CANDIDATES),
       addresses,
+      addressComponents,
       phoneNumbers,
+      phones,
       websites,
       emails,
+      socialProfiles,
+      qrCodes,
       otherText,
+      openingHours,
+      ...(priceList ? { priceList } : {}),
+      blocks,
+      words,
+      ocrMode: ocr.mode,
       confidence
     };
 
@@ -137,7 +223,12 @@ export async function extractTextWithEnhancedVision(imageBuffer: Buffer): Promis
   }
 }
 
-function extractBusinessNamesWithContext(text: string): string[] {
+/**
+ * Rank business name candidates from all three strategies. The full ranking
+ * (with each candidate's source lines and score breakdown) is returned so
+ * the API can explain its suggestions; callers take the top 3 names.
+ */
+function extractBusinessNamesWithContext(text: string, words: OcrWord[], focusRegions: BoundingBox[] = []): NameCandidate[] {
   console.log('\n🏢 BUSINESS NAME EXTRACTION - DETAILED BREAKDOWN:');
   console.log('-'.repeat(60));
   
@@ -149,46 +240,64 @@ function extractBusinessNamesWithContext(text: string): string[] {
   
   // Clean and filter lines
   console.log('\n🧹 PREPROCESSING LINES:');
+  // Lines keep their order even with marked regions, so combined candidates only join real neighbours;
+  // the regions weigh in through the region score
   const cleanedLines = preprocessLines(lines);
+  const cleanedLineNumbers = mapToLineNumbers(cleanedLines, lines);
   console.log(`✅ After filtering: ${cleanedLines.length} meaningful lines:`);
   cleanedLines.forEach((line, i) => {
     console.log(`  Clean ${(i + 1).toString().padStart(2, ' ')}: "${line}"`);
   });
   
   // Extract candidates using multiple strategies
-  const candidates = [];
+  const candidates: NameCandidate[] = [];
+  const toCandidate = (strategy: NameCandidate['strategy']) => (source: CandidateSource): NameCandidate => ({
+    name: source.name,
+    strategy,
+    score: 0,
+    sourceLine: source.lines.map(i => cleanedLines[i]).join(' / '),
+    lineNumbers: source.lines.map(i => cleanedLineNumbers[i]),
+    components: {}
+  });
   
   console.log('\n🎯 STRATEGY 1: CONTEXT-AWARE COMBINATIONS');
   const contextCandidates = extractWithBusinessContext(cleanedLines);
   console.log(`   Found ${contextCandidates.length} context candidates:`);
-  contextCandidates.forEach((name, i) => {
+  contextCandidates.forEach(({ name }, i) => {
     console.log(`     Context ${(i + 1).toString().padStart(2, ' ')}: "${name}"`);
   });
-  candidates.push(...contextCandidates.map(name => ({ name, strategy: 'context', score: 0 })));
+  candidates.push(...contextCandidates.map(toCandidate('context')));
   
   console.log('\n📍 STRATEGY 2: POSITIONAL WEIGHTING');
   const positionalCandidates = extractWithPositionalWeighting(cleanedLines);
   console.log(`   Found ${positionalCandidates.length} positional candidates:`);
-  positionalCandidates.forEach((name, i) => {
+  positionalCandidates.forEach(({ name }, i) => {
     console.log(`     Position ${(i + 1).toString().padStart(2, ' ')}: "${name}"`);
   });
-  candidates.push(...positionalCandidates.map(name => ({ name, strategy: 'positional', score: 0 })));
+  candidates.push(...positionalCandidates.map(toCandidate('positional')));
   
   console.log('\n🔤 STRATEGY 3: PATTERN MATCHING');
   const patternCandidates = extractWithPatternMatching(cleanedLines);
   console.log(`   Found ${patternCandidates.length} pattern candidates:`);
-  patternCandidates.forEach((name, i) => {
+  patternCandidates.forEach(({ name }, i) => {
     console.log(`     Pattern ${(i + 1).toString().padStart(2, ' ')}: "${name}"`);
   });
-  candidates.push(...patternCandidates.map(name => ({ name, strategy: 'pattern', score: 0 })));
+  candidates.push(...patternCandidates.map(toCandidate('pattern')));
   
   console.log(`\n📊 TOTAL CANDIDATES BEFORE SCORING: ${candidates.length}`);
   
+  // Romanized spelling for names in Cyrillic or Hangul, searched when the original finds nothing
+  candidates.forEach(candidate => {
+    candidate.transliteration = transliterateName(candidate.name) || undefined;
+  });
+  
   // Score all candidates
   console.log('\n🏆 SCORING ALL CANDIDATES:');
   candidates.forEach((candidate, i) => {
     const firstWordIndex = cleanedLines.indexOf(candidate.name.split(' ')[0]);
-    candidate.score = scoreBusinessName(candidate.name, firstWordIndex);
+    const { score, components } = scoreBusinessName(candidate.name, firstWordIndex, words, focusRegions);
+    candidate.score = score;
+    candidate.components = components;
     console.log(`  ${(i + 1).toString().padStart(2, ' ')}. "${candidate.name}" (${candidate.strategy}) → Score: ${candidate.score.toFixed(2)}`);
   });
   
@@ -203,16 +312,27 @@ function extractBusinessNamesWithContext(text: string): string[] {
   console.log('\n📈 SORTING BY SCORE (HIGHEST FIRST):');
   uniqueCandidates.sort((a, b) => b.score - a.score);
   uniqueCandidates.forEach((candidate, i) => {
-    console.log(`     Rank ${(i + 1).toString().padStart(2, ' ')}: "${candidate.name}" → ${candidate.score.toFixed(2)} points`);
+    const breakdown = Object.entries(candidate.components)
+      .map(([component, points]) => `${component} ${points.toFixed(1)}`)
+      .join(', ');
+    console.log(`     Rank ${(i + 1).toString().padStart(2, ' ')}: "${candidate.name}" → ${candidate.score.toFixed(2)} points (${breakdown})`);
   });
   
-  const finalNames = uniqueCandidates.slice(0, 3).map(c => c.name);
   console.log('\n🎯 TOP 3 BUSINESS NAMES FOR API SEARCHES:');
-  finalNames.forEach((name, i) => {
-    console.log(`     ${i + 1}. "${name}" ← Will be used for Places API & Web Search`);
+  uniqueCandidates.slice(0, 3).forEach((candidate, i) => {
+    console.log(`     ${i + 1}. "${candidate.name}" ← Will be used for Places API & Web Search`);
   });
   
-  return finalNames;
+  return uniqueCandidates;
+}
+
+// Line numbers (1-based) in the OCR text of each line that survived preprocessing
+function mapToLineNumbers(cleanedLines: string[], lines: string[]): number[] {
+  let cursor = 0;
+  return cleanedLines.map(cleaned => {
+    while (cursor < lines.length && lines[cursor].trim() !== cleaned) cursor++;
+    return ++cursor;
+  });
 }
 
 function preprocessLines(lines: string[]): string[] {
@@ -232,7 +352,7 @@ function preprocessLines(lines: string[]): string[] {
       if (/^\d+$/.test(line)) reasons.push('just numbers');
       if (line === '&') reasons.push('just ampersand');
       if (line === '-') reasons.push('just dash');
-      if (!/[a-zA-Z]/.test(line)) reasons.push('no letters');
+      if (!/\p{L}/u.test(line)) reasons.push('no letters');
       
       const isKept = reasons.length === 0;
       console.log(`     Line ${(i + 1).toString().padStart(2, ' ')}: "${line}" → ${isKept ? 'KEEP' : 'FILTER (' + reasons.join(', ') + ')'}`);
@@ -243,22 +363,11 @@ function preprocessLines(lines: string[]): string[] {
   return result;
 }
 
-function extractWithBusinessContext(lines: string[]): string[] {
-  const candidates = [];
-  
-  // Look for business-indicating word patterns
-  const businessIndicators = [
-    { words: ['coffee'], weight: 1.0 },
-    { words: ['food', 'park'], weight: 1.0 },
-    { words: ['coffee', 'shop'], weight: 1.0 },
-    { words: ['restaurant'], weight: 0.8 },
-    { words: ['market'], weight: 0.7 },
-    { words: ['center'], weight: 0.7 },
-    { words: ['plaza'], weight: 0.7 },
-    { words: ['cafe'], weight: 0.8 },
-    { words: ['grill'], weight: 0.8 },
-    { words: ['bar'], weight: 0.8 }
-  ];
+function extractWithBusinessContext(lines: string[]): CandidateSource[] {
+  const candidates: CandidateSource[] = [];
+  
+  // Business-indicating phrases from the shared keyword dictionary
+  const businessIndicators = getBusinessKeywords().nameKeywords;
   
   console.log('     Checking combinations for business keywords...');
   
@@ -266,14 +375,12 @@ function extractWithBusinessContext(lines: string[]): string[] {
   for (let i = 0; i < lines.length; i++) {
     for (let j = i + 1; j <= Math.min(i + 4, lines.length); j++) {
       const combined = lines.slice(i, j).join(' ');
-      const lowerCombined = combined.toLowerCase();
       
       // Check if this combination contains business indicators
       for (const indicator of businessIndicators) {
-        const hasAllWords = indicator.words.every(word => lowerCombined.includes(word));
-        if (hasAllWords && combined.length < 50) {
-          candidates.push(combined);
-          console.log(`     ✓ Context match: "${combined}" (contains: ${indicator.words.join(' + ')})`);
+        if (containsKeywordWords(combined, indicator) && combined.length < 50) {
+          candidates.push({ name: combined, lines: range(i, j) });
+          console.log(`     ✓ Context match: "${combined}" (contains: ${indicator.phrase.split(' ').join(' + ')}, ${indicator.locale})`);
           break;
         }
       }
@@ -283,18 +390,20 @@ function extractWithBusinessContext(lines: string[]): string[] {
   return candidates;
 }
 
-function extractWithPositionalWeighting(lines: string[]): string[] {
-  const candidates = [];
+function extractWithPositionalWeighting(lines: string[]): CandidateSource[] {
+  const candidates: CandidateSource[] = [];
   
   console.log('     Extracting based on position (earlier = more important)...');
   
   // Earlier lines are more likely to be business names
   for (let i = 0; i < Math.min(lines.length, 5); i++) {
     const line = lines[i];
+    const length = nameLength(line);
+    const minLength = isDenseScript(dominantScript(line)) ? 2 : 4;
     
     // Single words (if they look substantial)
-    if (line.length >= 4 && line.length <= 15) {
-      candidates.push(line);
+    if (length >= minLength && length <= 15) {
+      candidates.push({ name: line, lines: [i] });
       console.log(`     ✓ Single word: "${line}" (position ${i + 1})`);
     }
     
@@ -302,7 +411,7 @@ function extractWithPositionalWeighting(lines: string[]): string[] {
     if (i < lines.length - 1) {
       const combined = `${lines[i]} ${lines[i + 1]}`;
       if (combined.length <= 30) {
-        candidates.push(combined);
+        candidates.push({ name: combined, lines: [i, i + 1] });
         console.log(`     ✓ Two words: "${combined}" (positions ${i + 1}-${i + 2})`);
       }
     }
@@ -311,7 +420,7 @@ function extractWithPositionalWeighting(lines: string[]): string[] {
     if (i < lines.length - 2) {
       const combined = `${lines[i]} ${lines[i + 1]} ${lines[i + 2]}`;
       if (combined.length <= 40) {
-        candidates.push(combined);
+        candidates.push({ name: combined, lines: [i, i + 1, i + 2] });
         console.log(`     ✓ Three words: "${combined}" (positions ${i + 1}-${i + 3})`);
       }
     }
@@ -320,15 +429,18 @@ function extractWithPositionalWeighting(lines: string[]): string[] {
   return candidates;
 }
 
-function extractWithPatternMatching(lines: string[]): string[] {
-  const candidates = [];
+function extractWithPatternMatching(lines: string[]): CandidateSource[] {
+  const candidates: CandidateSource[] = [];
   
   // Look for common business name patterns
   const patterns = [
-    { regex: /^[A-Z][a-z]+ [A-Z][a-z]+$/, name: 'Proper case two words' },
-    { regex: /^[A-Z]+ [A-Z]+$/, name: 'All caps two words' },
-    { regex: /^[A-Z][a-z]+ [A-Z][a-z]+ [A-Z][a-z]+$/, name: 'Three proper case words' },
-    { regex: /^[A-Z]+ [A-Z]+ [A-Z]+$/, name: 'Three all caps words' }
+    { regex: /^\p{Lu}\p{Ll}+ \p{Lu}\p{Ll}+$/u, name: 'Proper case two words' },
+    { regex: /^\p{Lu}+ \p{Lu}+$/u, name: 'All caps two words' },
+    { regex: /^\p{Lu}\p{Ll}+ \p{Lu}\p{Ll}+ \p{Lu}\p{Ll}+$/u, name: 'Three proper case words' },
+    { regex: /^\p{Lu}+ \p{Lu}+ \p{Lu}+$/u, name: 'Three all caps words' },
+    // Scripts without case: a short run of letters on its own line(s)
+    { regex: /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]{2,8}(?: [\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]{1,8}){0,2}$/u, name: 'CJK name' },
+    { regex: /^\p{Script=Arabic}{2,}(?: \p{Script=Arabic}{2,}){1,3}$/u, name: 'Arabic words' }
   ];
   
   console.log('     Checking text patterns...');
@@ -340,7 +452,7 @@ function extractWithPatternMatching(lines: string[]): string[] {
       // Check against patterns
       for (const pattern of patterns) {
         if (pattern.regex.test(combined) && combined.length <= 35) {
-          candidates.push(combined);
+          candidates.push({ name: combined, lines: range(i, j) });
           console.log(`     ✓ Pattern match: "${combined}" (${pattern.name})`);
           break;
         }
@@ -351,90 +463,130 @@ function extractWithPatternMatching(lines: string[]): string[] {
   return candidates;
 }
 
-function scoreBusinessName(name: string, position: number): number {
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start }, (_, i) => start + i);
+}
+
+function scoreBusinessName(
+  name: string,
+  position: number,
+  ocrWords: OcrWord[] = [],
+  focusRegions: BoundingBox[] = []
+): { score: number; components: ScoreComponents } {
   let score = 0;
   const scoringDetails = [];
+  const components: ScoreComponents = {};
+  // Lengths are counted in characters for Chinese, Japanese and Korean, where one character is a syllable or word
+  const script = dominantScript(name);
+  const dense = isDenseScript(script);
+  const length = nameLength(name, script);
+  if (script !== 'latin') scoringDetails.push(`script: ${script}`);
   
   // Position score (earlier = better, max 10 points)
   const positionScore = Math.max(0, 10 - position);
   score += positionScore;
+  components.position = positionScore;
   scoringDetails.push(`position: +${positionScore.toFixed(1)}`);
   
   // Length score (optimal business name length, max 5 points)
   const words = name.split(' ');
   let lengthScore = 0;
-  if (words.length === 2) lengthScore = 5; // Two words ideal
+  if (dense) {
+    if (length >= 2 && length <= 6) lengthScore = 5; // Typical shop name
+    else if (length > 6 && length <= 10) lengthScore = 4;
+  } else if (words.length === 2) lengthScore = 5; // Two words ideal
   else if (words.length === 3) lengthScore = 4; // Three words good
   else if (words.length === 1 && name.length > 4) lengthScore = 3; // Single substantial word
   score += lengthScore;
+  components.length = lengthScore;
   scoringDetails.push(`length: +${lengthScore}`);
   
   // Format score (max 5 points)
   let formatScore = 0;
-  if (/^[A-Z]/.test(name)) {
-    formatScore += 2; // Starts with capital
-    scoringDetails.push('capital start: +2');
-  }
-  if (/^[A-Z\s&\-'\.]+$/.test(name)) {
-    formatScore += 3; // All caps (common in signage)
-    scoringDetails.push('all caps: +3');
+  if (isCaselessScript(script)) {
+    formatScore = CASELESS_FORMAT_SCORE;
+    scoringDetails.push(`no letter case: +${CASELESS_FORMAT_SCORE}`);
+  } else {
+    if (/^\p{Lu}/u.test(name)) {
+      formatScore += 2; // Starts with capital
+      scoringDetails.push('capital start: +2');
+    }
+    if (/^[\p{Lu}\s&\-'\.]+$/u.test(name)) {
+      formatScore += 3; // All caps (common in signage)
+      scoringDetails.push('all caps: +3');
+    }
   }
   score += formatScore;
+  components.format = formatScore;
   
-  // Business keyword bonus (max 8 points)
-  const lowerName = name.toLowerCase();
-  const businessKeywords = [
-    { word: 'coffee', points: 7 },
-    { word: 'food park', points: 8 },
-    { word: 'coffee shop', points: 7 },
-    { word: 'restaurant', points: 6 },
-    { word: 'market', points: 5 },
-    { word: 'center', points: 4 },
-    { word: 'plaza', points: 4 },
-    { word: 'cafe', points: 5 },
-    { word: 'grill', points: 5 },
-    { word: 'bar', points: 4 }
-  ];
-  
-  let keywordScore = 0;
-  for (const keyword of businessKeywords) {
-    if (lowerName.includes(keyword.word)) {
-      keywordScore = keyword.points;
-      scoringDetails.push(`keyword "${keyword.word}": +${keyword.points}`);
-      break;
-    }
+  // Business keyword bonus (max 8 points in the default dictionary)
+  const keyword = findNameKeyword(name);
+  const keywordScore = keyword?.points ?? 0;
+  if (keyword) {
+    scoringDetails.push(`keyword "${keyword.phrase}" (${keyword.locale}): +${keyword.points}`);
   }
   score += keywordScore;
+  components.keyword = keywordScore;
   
   // Completeness bonus (max 3 points)
   let completenessScore = 0;
-  if (name.length >= 8 && name.length <= 25) {
+  if (dense ? length >= 2 && length <= 8 : length >= 8 && length <= 25) {
     completenessScore = 3;
     scoringDetails.push('good length: +3');
   }
   score += completenessScore;
+  components.completeness = completenessScore;
+  
+  // Visual prominence from the OCR word boxes (max 15 points)
+  // Signage names are almost always the largest text on the sign
+  const prominence = measureProminence(name, ocrWords);
+  if (prominence) {
+    const heightScore = prominence.heightRatio * 8;
+    const areaScore = Math.sqrt(prominence.areaRatio) * 4;
+    const centralityScore = prominence.centrality * 3;
+    score += heightScore + areaScore + centralityScore;
+    components.glyphHeight = heightScore;
+    components.area = areaScore;
+    components.centrality = centralityScore;
+    scoringDetails.push(
+      `glyph height: +${heightScore.toFixed(1)}`,
+      `area: +${areaScore.toFixed(1)}`,
+      `centrality: +${centralityScore.toFixed(1)}`
+    );
+  }
+  
+  // Text inside the regions the user marked (max 12 points)
+  if (focusRegions.length > 0) {
+    const regionScore = shareInsideRegions(name, ocrWords, focusRegions) * FOCUS_REGION_SCORE;
+    score += regionScore;
+    components.region = regionScore;
+    scoringDetails.push(`marked region: +${regionScore.toFixed(1)}`);
+  }
   
   // Penalize very long or very short names
-  if (name.length < 4) {
-    score -= 3;
+  let penalty = 0;
+  if (length < (dense ? 2 : 4)) {
+    penalty -= 3;
     scoringDetails.push('too short: -3');
   }
-  if (name.length > 40) {
-    score -= 5;
+  if (length > (dense ? 15 : 40)) {
+    penalty -= 5;
     scoringDetails.push('too long: -5');
   }
+  score += penalty;
+  components.penalty = penalty;
   
   const finalScore = Math.max(0, score);
   console.log(`       Scoring "${name}": ${finalScore.toFixed(2)} (${scoringDetails.join(', ')})`);
   
-  return finalScore;
+  return { score: finalScore, components };
 }
 
-function removeSimilarCandidates(candidates: any[]): any[] {
-  const unique: any[] = [];
+function removeSimilarCandidates(candidates: NameCandidate[]): NameCandidate[] {
+  const unique: NameCandidate[] = [];
   
   for (const candidate of candidates) {
-    const isDuplicate = unique.some(existing => {
+    const duplicateOf = unique.find(existing => {
       // Check if one is completely contained in the other
       const existingText = existing.name.toLowerCase();
       const candidateText = candidate.name.toLowerCase();
@@ -450,7 +602,12 @@ function removeSimilarCandidates(candidates: any[]): any[] {
       return isContained;
     });
     
-    if (!isDuplicate) {
+    if (duplicateOf) {
+      // Keep a trace of what was folded in so the ranking can be explained
+      if (duplicateOf.name !== candidate.name && !duplicateOf.similar?.includes(candidate.name)) {
+        duplicateOf.similar = [...(duplicateOf.similar || []), candidate.name];
+      }
+    } else {
       unique.push(candidate);
       console.log(`       Keeping unique: "${candidate.name}"`);
     }
@@ -459,17 +616,17 @@ function removeSimilarCandidates(candidates: any[]): any[] {
   return unique;
 }
 
-function calculateSmartConfidence(detections: any[], businessNames: string[]): ExtractedText['confidence'] {
+function calculateSmartConfidence(ocr: OcrResult, businessNames: string[]): ExtractedText['confidence'] {
   console.log('\n🎯 CALCULATING CONFIDENCE:');
   let confidence = 0.5; // Base confidence
   const confidenceDetails = ['base: 0.5'];
   
   // Detection quality
-  if (detections.length > 5) {
+  if (ocr.words.length > 5) {
     confidence += 0.1;
     confidenceDetails.push('>5 detections: +0.1');
   }
-  if (detections.length > 10) {
+  if (ocr.words.length > 10) {
     confidence += 0.1;
     confidenceDetails.push('>10 detections: +0.1');
   }
@@ -485,8 +642,7 @@ function calculateSmartConfidence(detections: any[], businessNames: string[]): E
   }
   
   // Text quality
-  const fullText = detections[0]?.description || '';
-  const words = fullText.split(/\s+/).filter((w: string | any[]) => w.length > 0);
+  const words = ocr.fullText.split(/\s+/).filter((w: string | any[]) => w.length > 0);
   if (words.length >= 5) {
     confidence += 0.1;
     confidenceDetails.push('≥5 words: +0.1');
@@ -511,18 +667,89 @@ function calculateSmartConfidence(detections: any[], businessNames: string[]): E
   return result;
 }
 
-function extractAddresses(text: string): string[] {
-  const addressRegex = /\d+\s+[A-Za-z\s]+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct)/gi;
-  const matches = text.match(addressRegex) || [];
-  console.log(`   Address extraction: ${matches.length} found`);
-  return matches;
+function isPersonName(line: string): boolean {
+  const words = line.trim().split(/\s+/);
+  if (words.length < 2 || words.length > 4 || line.length > 40) return false;
+  if (!words.every(word => /^\p{Lu}[\p{L}'.-]*$/u.test(word))) return false;
+  return !JOB_TITLE_REGEX.test(foldKeywordText(line)) && !findNameKeyword(line);
 }
 
-function extractPhoneNumbers(text: string): string[] {
-  const phoneRegex = /(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})/g;
-  const matches = text.match(phoneRegex) || [];
-  console.log(`   Phone extraction: ${matches.length} found`);
-  return matches;
+/**
+ * Run the field extractors on each layout block separately. A person's name
+ * is only taken from a block that also has a job title or contact details.
+ */
+function extractBlockFields(ocrBlocks: OcrBlock[]): TextBlock[] {
+  return ocrBlocks
+    .filter(block => block.text.trim().length > 0)
+    .map(block => {
+      const lines = block.text.split('\n').map(line => line.trim()).filter(Boolean);
+      const phones = extractPhoneNumbers(block.text);
+      const emails = extractEmails(block.text);
+      const websites = extractWebsites(block.text)
+        .filter(site => !isSocialUrl(site) && !emails.some(email => email.endsWith(`@${site}`)));
+      const jobTitle = lines.find(line => JOB_TITLE_REGEX.test(foldKeywordText(line)) && line.length <= 40);
+      const hasContactDetails = phones.length > 0 || emails.length > 0 || !!jobTitle;
+      const bounds = boundsFromVertices(block.vertices);
+
+      return {
+        text: block.text,
+        bounds: bounds || undefined,
+        personName: hasContactDetails ? lines.find(isPersonName) : undefined,
+        jobTitle,
+        phones,
+        emails,
+        websites,
+        addresses: extractAddresses(block.text),
+        socialProfiles: extractSocialProfiles(block.text)
+      };
+    });
+}
+
+/**
+ * Tag each OCR word with the field it was extracted into, so the client can
+ * highlight them on the photo. Contact details are matched before the name
+ * so "Joe's Pizza" in "joespizza.com" stays a website.
+ */
+function labelWords(
+  ocrWords: OcrWord[],
+  fields: {
+    name?: string;
+    phones: string[];
+    addresses: PostalAddress[];
+    websites: string[];
+    emails: string[];
+    socialProfiles: SocialProfile[];
+  }
+): WordBox[] {
+  const labels = new Map<OcrWord, WordField>();
+  const label = (phrases: string[], field: WordField) => {
+    phrases.forEach(phrase => {
+      findCandidateWords(phrase, ocrWords.filter(word => !labels.has(word)))
+        .forEach(word => labels.set(word, field));
+    });
+  };
+
+  label(fields.emails, 'email');
+  label(fields.websites, 'website');
+  label(fields.socialProfiles.filter(profile => profile.source === 'text').map(profile => profile.handle), 'social');
+  label(fields.phones, 'phone');
+  label(fields.name ? [fields.name] : [], 'name');
+
+  // Addresses are reformatted, so match their parts one word at a time
+  const addressTokens = new Set(
+    fields.addresses
+      .flatMap(address => [address.street, address.unit, address.poBox, address.city, address.region, address.postalCode])
+      .flatMap(part => (part || '').toLowerCase().split(/[\s,]+/))
+      .filter(token => token.length > 1)
+  );
+  ocrWords
+    .filter(word => !labels.has(word) && addressTokens.has(word.text.toLowerCase().replace(/[,.]$/, '')))
+    .forEach(word => labels.set(word, 'address'));
+
+  return ocrWords.flatMap(word => {
+    const bounds = boundsFromVertices(word.vertices);
+    return bounds ? [{ text: word.text, confidence: word.confidence, bounds, field: labels.get(word) || 'other' }] : [];
+  });
 }
 
 function extractWebsites(text: string): string[] {
@@ -1,5 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import { extractAddresses } from './address';
+import { extractPhoneNumbers } from './phone';
 import { WebSearchResult } from './types';
 
 export interface BusinessWebData {
@@ -262,19 +264,19 @@ function extractBusinessDataFromResults(businessName: string, results: WebSearch
     
     // Extract phone number
     if (!businessData.phone) {
-      const phoneMatch = text.match(/(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})/);
+      const [phoneMatch] = extractPhoneNumbers(text);
       if (phoneMatch) {
-        businessData.phone = phoneMatch[0];
-        console.log('📞 Found phone:', phoneMatch[0]);
+        businessData.phone = phoneMatch.display;
+        console.log('📞 Found phone:', phoneMatch.display, `(${phoneMatch.e164})`);
       }
     }
     
     // Extract address
     if (!businessData.address) {
-      const addressMatch = text.match(/\d+\s+[A-Za-z\s]+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr)/i);
-      if (addressMatch) {
-        businessData.address = addressMatch[0];
-        console.log('📍 Found address:', addressMatch[0]);
+      const address = extractAddresses(text)[0];
+      if (address) {
+        businessData.address = address.formatted;
+        console.log('📍 Found address:', address.formatted);
       }
     }
     